@@ -3,7 +3,8 @@ import { getDatabase, COLLECTIONS } from '../../config/database';
 import { cacheService } from '../../config/redis';
 import { authenticate } from '../../middleware/auth';
 import { jsonResponse, errorResponse, paginatedResponse } from '../../utils/response';
-import type { Block, CreateBlockDto, UpdateBlockDto } from '@codeblock-bff/shared';
+import { validateTransformTemplate, validateAggregateDefinition, parseExpression, validateJsonPath, parseJsonPointer, validateMockFixture, invalidateBlockCache } from '../../engine';
+import type { Block, CreateBlockDto, UpdateBlockDto, ResponseFormat, RequestContentType, QueryParameterStyle } from '@codeblock-bff/shared';
 
 export async function handleBlocksApi(request: Request, path: string): Promise<Response> {
   const url = new URL(request.url);
@@ -18,6 +19,10 @@ export async function handleBlocksApi(request: Request, path: string): Promise<R
     return createBlockFromOpenApi(request);
   }
 
+  if (blockId && pathParts[3] === 'cache' && method === 'DELETE') {
+    return clearBlockCache(blockId, request);
+  }
+
   // CRUD operations
   switch (method) {
     case 'GET':
@@ -131,8 +136,18 @@ async function createBlock(request: Request): Promise<Response> {
   }
 
   // Validation
-  if (!body.name || !body.type || !body.source) {
-    return errorResponse('Missing required fields: name, type, source', 400);
+  if (!body.name || !body.type) {
+    return errorResponse('Missing required fields: name, type', 400);
+  }
+
+  // Only API call blocks have an upstream source
+  if (body.type === 'api_call' && !body.source) {
+    return errorResponse('Missing required field: source', 400);
+  }
+
+  const definitionError = validateBlockDefinition(body);
+  if (definitionError) {
+    return errorResponse(definitionError, 400);
   }
 
   const db = getDatabase();
@@ -145,6 +160,10 @@ async function createBlock(request: Request): Promise<Response> {
     source: body.source,
     inputs: body.inputs || [],
     outputs: body.outputs || [],
+    transform: body.transform,
+    condition: body.condition,
+    aggregate: body.aggregate,
+    mock: body.mock,
     category: body.category,
     tags: body.tags,
     createdAt: new Date(),
@@ -174,6 +193,11 @@ async function updateBlock(blockId: string, request: Request): Promise<Response>
     return errorResponse('Invalid JSON body', 400);
   }
 
+  const definitionError = validateBlockDefinition(body);
+  if (definitionError) {
+    return errorResponse(definitionError, 400);
+  }
+
   let objectId: ObjectId;
   try {
     objectId = new ObjectId(blockId);
@@ -199,8 +223,8 @@ async function updateBlock(blockId: string, request: Request): Promise<Response>
     return errorResponse('Block not found', 404);
   }
 
-  // Invalidate cache
-  await cacheService.invalidateBlock(blockId);
+  // Invalidate cache, including upstream responses extracted with the old definition
+  await Promise.all([cacheService.invalidateBlock(blockId), invalidateBlockCache(blockId)]);
 
   return jsonResponse(result);
 }
@@ -224,12 +248,105 @@ async function deleteBlock(blockId: string): Promise<Response> {
     return errorResponse('Block not found', 404);
   }
 
-  // Invalidate cache
-  await cacheService.invalidateBlock(blockId);
+  // Invalidate cache, including cached upstream responses
+  await Promise.all([cacheService.invalidateBlock(blockId), invalidateBlockCache(blockId)]);
 
   return jsonResponse({ deleted: true });
 }
 
+// Drops cached upstream responses so the next calls reach the API
+async function clearBlockCache(blockId: string, request: Request): Promise<Response> {
+  const authResult = await authenticate(request);
+  if (!authResult.authenticated) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  if (!ObjectId.isValid(blockId)) {
+    return errorResponse('Invalid block ID', 400);
+  }
+
+  await invalidateBlockCache(blockId);
+
+  return jsonResponse({ invalidated: true });
+}
+
+// Validates the type-specific parts of a block definition
+const RESPONSE_FORMATS: ResponseFormat[] = ['json', 'text', 'xml', 'csv', 'binary'];
+const REQUEST_CONTENT_TYPES: RequestContentType[] = ['application/json', 'application/x-www-form-urlencoded', 'multipart/form-data'];
+const QUERY_STYLES: QueryParameterStyle[] = ['form', 'spaceDelimited', 'pipeDelimited', 'deepObject'];
+
+function validateBlockDefinition(body: UpdateBlockDto): string | null {
+  const pathErrors = (body.outputs || [])
+    .map(output => {
+      const error = validateJsonPath(output.path || '');
+      return error ? `outputs.${output.name}.path: ${error}` : null;
+    })
+    .filter(Boolean);
+  if (pathErrors.length > 0) {
+    return `Invalid output path: ${pathErrors.join('; ')}`;
+  }
+
+  for (const input of body.inputs || []) {
+    if (input.pointer !== undefined) {
+      try {
+        parseJsonPointer(input.pointer);
+      } catch (error) {
+        return `inputs.${input.name}.pointer: ${(error as Error).message}`;
+      }
+    }
+    if (input.style && !QUERY_STYLES.includes(input.style)) {
+      return `inputs.${input.name}.style must be one of: ${QUERY_STYLES.join(', ')}`;
+    }
+  }
+
+  const contentType = body.source?.requestContentType;
+  if (contentType && !REQUEST_CONTENT_TYPES.includes(contentType)) {
+    return `source.requestContentType must be one of: ${REQUEST_CONTENT_TYPES.join(', ')}`;
+  }
+
+  const credentialId = body.source?.credentialId;
+  if (credentialId !== undefined && !ObjectId.isValid(credentialId)) {
+    return 'source.credentialId must be a credential ID';
+  }
+
+  const format = body.source?.response?.format;
+  if (format && !RESPONSE_FORMATS.includes(format)) {
+    return `source.response.format must be one of: ${RESPONSE_FORMATS.join(', ')}`;
+  }
+
+  if (body.mock !== undefined) {
+    const mockError = validateMockFixture(body.mock);
+    if (mockError) {
+      return `mock: ${mockError}`;
+    }
+  }
+
+  if (body.transform) {
+    const transformErrors = validateTransformTemplate(body.transform);
+    if (transformErrors.length > 0) {
+      return `Invalid transform template: ${transformErrors.join('; ')}`;
+    }
+  }
+
+  if (body.aggregate) {
+    const aggregateErrors = validateAggregateDefinition(body.aggregate);
+    if (aggregateErrors.length > 0) {
+      return `Invalid aggregate definition: ${aggregateErrors.join('; ')}`;
+    }
+  }
+
+  if (body.condition) {
+    try {
+      parseExpression(body.condition.expression || '');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid expression';
+      return `Invalid condition expression: ${message}`;
+    }
+  }
+
+  return null;
+}
+
 async function createBlockFromOpenApi(request: Request): Promise<Response> {
   // Authentication required
   const authResult = await authenticate(request);
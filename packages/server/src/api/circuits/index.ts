@@ -0,0 +1,31 @@
+import { authenticate } from '../../middleware/auth';
+import { jsonResponse, errorResponse } from '../../utils/response';
+import { getCircuitState, listCircuitStates, resetCircuit } from '../../engine';
+
+export async function handleCircuitsApi(request: Request, path: string): Promise<Response> {
+  const method = request.method;
+
+  const authResult = await authenticate(request);
+  if (!authResult.authenticated) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  // Hosts include the port, e.g. /api/circuits/api.example.com:8443
+  const pathParts = path.split('/').filter(Boolean);
+  const host = pathParts.length > 2 ? decodeURIComponent(pathParts[2]) : null;
+  const action = pathParts.length > 3 ? pathParts[3] : null;
+
+  if (host && action === 'reset' && method === 'POST') {
+    await resetCircuit(host);
+    return jsonResponse(await getCircuitState(host));
+  }
+
+  if (method === 'GET') {
+    if (host) {
+      return jsonResponse(await getCircuitState(host));
+    }
+    return jsonResponse(await listCircuitStates());
+  }
+
+  return errorResponse('Method not allowed', 405);
+}
@@ -0,0 +1,325 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase, COLLECTIONS } from '../../config/database';
+import { authenticate } from '../../middleware/auth';
+import { jsonResponse, errorResponse, paginatedResponse } from '../../utils/response';
+import { encryptSecret, invalidateCredentialToken } from '../../engine';
+import type {
+  Credential,
+  CredentialView,
+  CredentialType,
+  CredentialSecret,
+  CreateCredentialDto,
+  UpdateCredentialDto,
+  Flow,
+  FlowBlock,
+} from '@codeblock-bff/shared';
+
+const CREDENTIAL_TYPES: CredentialType[] = ['api_key', 'basic', 'bearer', 'oauth2_client_credentials'];
+
+// Secret values each credential type needs
+const REQUIRED_SECRETS: Record<CredentialType, Array<keyof CredentialSecret>> = {
+  api_key: ['apiKey'],
+  basic: ['username', 'password'],
+  bearer: ['token'],
+  oauth2_client_credentials: ['clientId', 'clientSecret'],
+};
+
+// Never sent back to clients
+const HIDDEN_FIELDS = { encryptedSecret: 0 };
+
+export async function handleCredentialsApi(request: Request, path: string): Promise<Response> {
+  const url = new URL(request.url);
+  const method = request.method;
+
+  // Secrets are managed by authenticated users only
+  const authResult = await authenticate(request);
+  if (!authResult.authenticated) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  // Extract credential ID from path if present
+  const pathParts = path.split('/').filter(Boolean);
+  const credentialId = pathParts.length > 2 ? pathParts[2] : null;
+
+  switch (method) {
+    case 'GET':
+      if (credentialId) {
+        return getCredentialView(credentialId);
+      }
+      return listCredentials(url);
+
+    case 'POST':
+      return createCredential(request, authResult.user.sub);
+
+    case 'PUT':
+      if (!credentialId) {
+        return errorResponse('Credential ID required', 400);
+      }
+      return updateCredential(credentialId, request);
+
+    case 'DELETE':
+      if (!credentialId) {
+        return errorResponse('Credential ID required', 400);
+      }
+      return deleteCredential(credentialId);
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+async function listCredentials(url: URL): Promise<Response> {
+  const db = getDatabase();
+  const collection = db.collection<Credential>(COLLECTIONS.CREDENTIALS);
+
+  // Pagination
+  const page = parseInt(url.searchParams.get('page') || '1', 10);
+  const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+  const skip = (page - 1) * limit;
+
+  const filter: Record<string, unknown> = {};
+  const type = url.searchParams.get('type');
+  if (type) filter.type = type;
+
+  const [credentials, total] = await Promise.all([
+    collection
+      .find(filter, { projection: HIDDEN_FIELDS })
+      .sort({ name: 1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray(),
+    collection.countDocuments(filter),
+  ]);
+
+  return paginatedResponse(credentials, total, page, limit);
+}
+
+async function getCredentialView(credentialId: string): Promise<Response> {
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(credentialId);
+  } catch {
+    return errorResponse('Invalid credential ID', 400);
+  }
+
+  const db = getDatabase();
+  const collection = db.collection(COLLECTIONS.CREDENTIALS);
+  const credential = await collection.findOne({ _id: objectId }, { projection: HIDDEN_FIELDS });
+
+  if (!credential) {
+    return errorResponse('Credential not found', 404);
+  }
+
+  return jsonResponse(credential);
+}
+
+async function createCredential(request: Request, userId: string): Promise<Response> {
+  let body: CreateCredentialDto;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!body.name || !body.type || !body.secret) {
+    return errorResponse('Missing required fields: name, type, secret', 400);
+  }
+
+  const validationError = validateCredential(body.type, body.settings || {}, body.secret);
+  if (validationError) {
+    return errorResponse(validationError, 400);
+  }
+
+  let encryptedSecret: string;
+  try {
+    encryptedSecret = encryptSecret(body.secret);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Secret could not be encrypted';
+    return errorResponse(message, 500, 'ENCRYPTION_ERROR');
+  }
+
+  const db = getDatabase();
+  const collection = db.collection(COLLECTIONS.CREDENTIALS);
+
+  const credential: Omit<Credential, '_id'> = {
+    name: body.name,
+    description: body.description,
+    type: body.type,
+    settings: body.settings || {},
+    encryptedSecret,
+    secretFields: getSecretFields(body.secret),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: userId,
+  };
+
+  const result = await collection.insertOne(credential);
+  const { encryptedSecret: _hidden, ...view } = credential;
+
+  return jsonResponse<CredentialView>({ ...view, _id: String(result.insertedId) }, 201);
+}
+
+async function updateCredential(credentialId: string, request: Request): Promise<Response> {
+  let body: UpdateCredentialDto;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(credentialId);
+  } catch {
+    return errorResponse('Invalid credential ID', 400);
+  }
+
+  const db = getDatabase();
+  const collection = db.collection(COLLECTIONS.CREDENTIALS);
+
+  const current = await collection.findOne({ _id: objectId }) as Credential | null;
+  if (!current) {
+    return errorResponse('Credential not found', 404);
+  }
+
+  // Without a new secret the stored one must still fit the (possibly new) type
+  const type = body.type || current.type;
+  const settings = body.settings || current.settings;
+  const validationError = body.secret
+    ? validateCredential(type, settings, body.secret)
+    : type !== current.type
+      ? 'Changing the credential type requires a new secret'
+      : validateCredential(type, settings, null);
+  if (validationError) {
+    return errorResponse(validationError, 400);
+  }
+
+  const updateData: Partial<Credential> = {
+    name: body.name ?? current.name,
+    description: body.description ?? current.description,
+    type,
+    settings,
+    updatedAt: new Date(),
+  };
+
+  if (body.secret) {
+    try {
+      updateData.encryptedSecret = encryptSecret(body.secret);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Secret could not be encrypted';
+      return errorResponse(message, 500, 'ENCRYPTION_ERROR');
+    }
+    updateData.secretFields = getSecretFields(body.secret);
+  }
+
+  const result = await collection.findOneAndUpdate(
+    { _id: objectId },
+    { $set: updateData },
+    { returnDocument: 'after', projection: HIDDEN_FIELDS }
+  );
+
+  if (!result) {
+    return errorResponse('Credential not found', 404);
+  }
+
+  // Tokens issued for the old settings must not be reused
+  await invalidateCredentialToken(credentialId);
+
+  return jsonResponse(result);
+}
+
+// Whether any of the blocks, including those inside loop bodies, uses the credential
+function usesCredential(flowBlocks: FlowBlock[], credentialId: string): boolean {
+  return flowBlocks.some(flowBlock =>
+    flowBlock.credentialId === credentialId
+    || (flowBlock.loop?.blocks ? usesCredential(flowBlock.loop.blocks, credentialId) : false)
+  );
+}
+
+async function countFlowsUsingCredential(credentialId: string): Promise<number> {
+  const db = getDatabase();
+  // Only flows with a direct use or a loop can match; loop bodies are checked here
+  const candidates = await db.collection<Flow>(COLLECTIONS.FLOWS)
+    .find(
+      { $or: [{ 'blocks.credentialId': credentialId }, { 'blocks.loop.blocks': { $exists: true } }] },
+      { projection: { blocks: 1 } }
+    )
+    .toArray();
+  return candidates.filter(flow => usesCredential(flow.blocks || [], credentialId)).length;
+}
+
+async function deleteCredential(credentialId: string): Promise<Response> {
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(credentialId);
+  } catch {
+    return errorResponse('Invalid credential ID', 400);
+  }
+
+  const db = getDatabase();
+
+  // Refuse to break blocks and flows that still use the credential
+  const [blockCount, flowCount] = await Promise.all([
+    db.collection(COLLECTIONS.BLOCKS).countDocuments({ 'source.credentialId': credentialId }),
+    countFlowsUsingCredential(credentialId),
+  ]);
+  if (blockCount + flowCount > 0) {
+    return errorResponse(
+      `Credential is used by ${blockCount} block(s) and ${flowCount} flow(s)`,
+      409,
+      'CREDENTIAL_IN_USE'
+    );
+  }
+
+  const result = await db.collection(COLLECTIONS.CREDENTIALS).deleteOne({ _id: objectId });
+
+  if (result.deletedCount === 0) {
+    return errorResponse('Credential not found', 404);
+  }
+
+  await invalidateCredentialToken(credentialId);
+
+  return jsonResponse({ deleted: true });
+}
+
+function getSecretFields(secret: CredentialSecret): string[] {
+  return Object.entries(secret)
+    .filter(([, value]) => typeof value === 'string' && value !== '')
+    .map(([name]) => name);
+}
+
+// Checks the type and settings, and the secret values when a new secret is given
+function validateCredential(
+  type: CredentialType,
+  settings: Credential['settings'],
+  secret: CredentialSecret | null
+): string | null {
+  if (!CREDENTIAL_TYPES.includes(type)) {
+    return `type must be one of: ${CREDENTIAL_TYPES.join(', ')}`;
+  }
+
+  if (secret) {
+    if (typeof secret !== 'object' || Object.values(secret).some(value => typeof value !== 'string')) {
+      return 'secret values must be strings';
+    }
+    const missing = REQUIRED_SECRETS[type].filter(field => !secret[field]);
+    if (missing.length > 0) {
+      return `secret is missing: ${missing.join(', ')}`;
+    }
+  }
+
+  if (settings.in && settings.in !== 'header' && settings.in !== 'query') {
+    return "settings.in must be 'header' or 'query'";
+  }
+
+  if (type === 'oauth2_client_credentials') {
+    try {
+      const tokenUrl = new URL(settings.tokenUrl || '');
+      if (tokenUrl.protocol !== 'https:' && tokenUrl.protocol !== 'http:') throw new Error();
+    } catch {
+      return 'settings.tokenUrl must be an http(s) URL';
+    }
+  }
+
+  return null;
+}
@@ -1,9 +1,80 @@
 import { getDatabase, COLLECTIONS } from '../../config/database';
 import { cacheService } from '../../config/redis';
 import { jsonResponse, errorResponse } from '../../utils/response';
-import type { Flow, ExecutionLog, ExecutionContext, BlockExecutionResult } from '@codeblock-bff/shared';
-
-export async function handleExecuteApi(request: Request, path: string): Promise<Response> {
+import { authenticate, hasRole } from '../../middleware/auth';
+import { checkRateLimit } from '../../middleware/rateLimit';
+import {
+  buildExpressionScope,
+  evaluateExpression,
+  applyTransform,
+  applyAggregate,
+  extractJsonPath,
+  decodeResponseBody,
+  describeResponseBody,
+  getPassthroughBytes,
+  setJsonPointer,
+  serializeQueryParameter,
+  serializeSimpleParameter,
+  encodeRequestBody,
+  resolveRetryPolicy,
+  executeWithRetry,
+  getBlockDefinition,
+  validateFlow,
+  formatValidationIssues,
+  redactHeaders,
+  toLoggedRequest,
+  toLoggedResponse,
+  shouldMockBlock,
+  executeMock,
+  mergeHeaderPolicies,
+  resolveForwardedHeaders,
+  getCredentialAuth,
+  invalidateCredentialToken,
+  REDACTED,
+  getBlockCacheKey,
+  executeWithCache,
+  isCacheBypassed,
+  hashValue,
+  computeETag,
+  matchesETag,
+  buildCacheControl,
+  getForwardedHeaderNames,
+  getExpressionHeaderReads,
+  resolveCircuitBreaker,
+  executeWithCircuitBreaker,
+  enqueueJob,
+  claimNextJob,
+  finishJob,
+  renewJobLease,
+  recoverStaleJobs,
+  isJobCancellationRequested,
+  JOB_LEASE_SECONDS,
+} from '../../engine';
+import type { QueuedExecution } from '../../engine';
+import type { CredentialAuth } from '../../engine';
+import type {
+  Flow,
+  Block,
+  FlowBlock,
+  Connection,
+  ExecutionLog,
+  ExecutionStatus,
+  ExecutionContext,
+  ExecutionEvent,
+  ExecutionRequest,
+  ExecutionTrigger,
+  ExecutionTrace,
+  FlowInputDefinition,
+  FlowCacheConfig,
+  HeaderForwardingPolicy,
+  BlockExecution,
+  BlockExecutionResult,
+  BlockTraceEntry,
+  Job,
+} from '@codeblock-bff/shared';
+
+// `remoteAddress` is the socket address of the caller, used when no proxy reports one
+export async function handleExecuteApi(request: Request, path: string, remoteAddress?: string): Promise<Response> {
   // Extract slug from path: /api/execute/:slug
   const pathParts = path.split('/').filter(Boolean);
   const slug = pathParts[2];
@@ -15,18 +86,242 @@ export async function handleExecuteApi(request: Request, path: string): Promise<
   // Check for test mode
   const isTest = pathParts[3] === 'test';
 
+  // Progress is streamed from /:slug/stream and /:slug/test/stream
+  const isStream = pathParts[isTest ? 4 : 3] === 'stream';
+
   // Check for logs request
   if (pathParts[3] === 'logs') {
+    // Logs hold the same upstream requests and responses as traces
+    const authError = await authorizeTrace(request);
+    if (authError) {
+      return authError;
+    }
     return getExecutionLogs(slug);
   }
 
-  return executeFlow(slug, request, isTest);
+  return executeFlow(slug, request, isTest, isStream, remoteAddress);
+}
+
+// Trace mode is requested with `?_trace=true` or an `X-Flow-Trace: true` header
+const TRACE_PARAM = '_trace';
+const TRACE_HEADER = 'X-Flow-Trace';
+// When set, only users with this role may request traces
+const TRACE_ROLE = process.env.TRACE_ROLE || '';
+
+function isTraceRequested(request: Request): boolean {
+  const value = new URL(request.url).searchParams.get(TRACE_PARAM) ?? request.headers.get(TRACE_HEADER);
+  return value === 'true' || value === '1';
+}
+
+// Traces expose upstream requests and responses, so they need an authorized caller
+async function authorizeTrace(request: Request): Promise<Response | null> {
+  const authResult = await authenticate(request);
+  if (!authResult.authenticated) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+  if (TRACE_ROLE && !hasRole(authResult.user, TRACE_ROLE)) {
+    return errorResponse(`Execution traces require the ${TRACE_ROLE} role`, 403, 'FORBIDDEN');
+  }
+  return null;
+}
+
+// Header values are strings; typed inputs are converted where possible
+function parseHeaderInput(value: string, input: FlowInputDefinition): unknown {
+  switch (input.type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(value);
+      return value.trim() !== '' && Number.isFinite(number) ? number : value;
+    }
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'object':
+    case 'array':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+// Async jobs: every server instance polls the shared Redis queue
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+const JOB_POLL_INTERVAL_MS = 500;
+const JOB_CANCEL_CHECK_INTERVAL_MS = 1000;
+
+export function startJobWorker(): void {
+  for (let slot = 0; slot < JOB_CONCURRENCY; slot++) {
+    pollJobs();
+  }
+  recoverJobs();
+}
+
+// Fails jobs left running by workers that died, on this or another instance
+async function recoverJobs(): Promise<void> {
+  for (;;) {
+    try {
+      const failed = await recoverStaleJobs();
+      if (failed > 0) console.warn(`Failed ${failed} job(s) whose worker stopped`);
+    } catch (error) {
+      console.error('Job recovery error:', error);
+    }
+    await Bun.sleep(JOB_LEASE_SECONDS * 1000);
+  }
 }
 
-async function executeFlow(slug: string, request: Request, isTest: boolean): Promise<Response> {
+async function pollJobs(): Promise<void> {
+  for (;;) {
+    try {
+      const claimed = await claimNextJob();
+      if (claimed) {
+        await runJob(claimed.job, claimed.payload);
+        continue;
+      }
+    } catch (error) {
+      console.error('Job worker error:', error);
+    }
+    await Bun.sleep(JOB_POLL_INTERVAL_MS);
+  }
+}
+
+async function runJob(job: Job, payload: QueuedExecution): Promise<void> {
   const startTime = Date.now();
 
-  // Get flow (cache first)
+  const flow = await loadPublishedFlow(job.flowSlug);
+  if (!flow) {
+    await finishJob({
+      ...job,
+      status: 'failed',
+      error: { message: 'Flow not found or not published', code: 'NOT_FOUND' },
+      completedAt: new Date().toISOString(),
+    });
+    return;
+  }
+
+  // The flow may have been edited since the job was queued, e.g. by a schedule
+  const validation = await validateFlow(flow);
+  if (!validation.valid) {
+    await finishJob({
+      ...job,
+      status: 'failed',
+      error: { message: `Flow graph is invalid: ${formatValidationIssues(validation.issues)}`, code: 'INVALID_FLOW' },
+      completedAt: new Date().toISOString(),
+    });
+    return;
+  }
+
+  // Cancellation is requested through Redis, possibly on another instance
+  const controller = new AbortController();
+  const cancelCheck = setInterval(() => {
+    isJobCancellationRequested(job.id)
+      .then(cancelled => { if (cancelled) controller.abort(); })
+      .catch(console.error);
+  }, JOB_CANCEL_CHECK_INTERVAL_MS);
+  const heartbeat = setInterval(() => {
+    renewJobLease(job.id).catch(console.error);
+  }, JOB_LEASE_SECONDS * 1000 / 3);
+
+  let result: FlowExecutionResult;
+  try {
+    result = await runFlowExecution(flow, payload.inputs, {
+      isTest: job.test,
+      headers: payload.headers,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Execution failed';
+    result = { error: { message, code: 'EXECUTION_ERROR' }, blockExecutions: [] };
+  } finally {
+    clearInterval(cancelCheck);
+    clearInterval(heartbeat);
+  }
+
+  const endTime = Date.now();
+  if (!job.test) {
+    logExecution(flow, payload.request, payload.trigger, result, startTime, endTime).catch(console.error);
+  }
+
+  await finishJob({
+    ...job,
+    status: controller.signal.aborted ? 'cancelled' : result.error ? 'failed' : 'completed',
+    outputs: result.error ? undefined : result.outputs || {},
+    error: result.error,
+    completedAt: new Date(endTime).toISOString(),
+  });
+}
+
+interface CachedFlowResult {
+  storedAt: number;
+  outputs: Record<string, unknown>;
+}
+
+interface FlowCachePlan {
+  policy: FlowCacheConfig;
+  varyHeaders: string[];
+}
+
+// Caller headers the outputs depend on: those forwarded upstream, read by
+// expressions or bound to inputs, and those listed in the policy. When an
+// expression reads headers by names only known at runtime, the response is
+// kept private and never stored server-side, as nothing safe can be keyed on.
+function getCachePlan(flow: Flow, policy: FlowCacheConfig): FlowCachePlan {
+  const reads = getExpressionHeaderReads(flow);
+  const names = new Set([...getForwardedHeaderNames(flow.config, flow.blocks), ...reads.names]);
+  for (const input of flow.inputs) {
+    if (input.in === 'header') names.add(input.name.toLowerCase());
+  }
+  for (const name of policy.vary || []) {
+    names.add(name.toLowerCase());
+  }
+
+  return {
+    policy: reads.dynamic ? { ...policy, private: true, serverTtl: undefined } : policy,
+    varyHeaders: [...names].sort(),
+  };
+}
+
+// Results are shared by executions of the same flow version with equal inputs and vary headers
+function getFlowResultKey(
+  flow: Flow,
+  inputs: Record<string, unknown>,
+  varyHeaders: string[],
+  callerHeaders: Record<string, string>
+): string {
+  return hashValue({
+    version: flow.version,
+    inputs,
+    headers: varyHeaders.map(name => [name, callerHeaders[name] ?? null]),
+  });
+}
+
+// Outputs with the flow's caching headers, or 304 when the caller already has them
+function cacheableResponse(
+  request: Request,
+  policy: FlowCacheConfig,
+  varyHeaders: string[],
+  outputs: Record<string, unknown>,
+  extraHeaders: Record<string, string>
+): Response {
+  const headers: Record<string, string> = {
+    'Cache-Control': buildCacheControl(policy, varyHeaders),
+    'ETag': computeETag(outputs),
+    ...extraHeaders,
+  };
+  if (varyHeaders.length > 0) {
+    headers['Vary'] = varyHeaders.join(', ');
+  }
+
+  if (matchesETag(request.headers.get('If-None-Match'), headers['ETag'])) {
+    return new Response(null, { status: 304, headers });
+  }
+  return jsonResponse(outputs, 200, headers);
+}
+
+// Get flow (cache first)
+async function loadPublishedFlow(slug: string): Promise<Flow | null> {
   let flow = await cacheService.getFlowBySlug(slug) as Flow | null;
 
   if (!flow) {
@@ -39,10 +334,143 @@ async function executeFlow(slug: string, request: Request, isTest: boolean): Pro
     }
   }
 
+  return flow;
+}
+
+async function executeFlow(
+  slug: string,
+  request: Request,
+  isTest: boolean,
+  isStream: boolean,
+  remoteAddress?: string
+): Promise<Response> {
+  const startTime = Date.now();
+
+  // Test runs call real upstreams without the rate limit, so only signed-in users start them
+  if (isTest) {
+    const authResult = await authenticate(request);
+    if (!authResult.authenticated) {
+      return errorResponse(authResult.error, authResult.status);
+    }
+  }
+
+  const trace = isTraceRequested(request);
+  if (trace) {
+    const authError = await authorizeTrace(request);
+    if (authError) {
+      return authError;
+    }
+  }
+
+  const flow = await loadPublishedFlow(slug);
   if (!flow) {
     return errorResponse('Flow not found or not published', 404);
   }
 
+  // Refuse to run graphs that cannot execute correctly
+  const validation = await validateFlow(flow);
+  if (!validation.valid) {
+    return errorResponse(`Flow graph is invalid: ${formatValidationIssues(validation.issues)}`, 422, 'INVALID_FLOW');
+  }
+
+  // Test runs from the editor are not rate limited
+  const rateLimit = flow.config?.rateLimit && !isTest
+    ? await checkRateLimit(`flow:${flow._id}`, flow.config.rateLimit, request, remoteAddress)
+    : null;
+  if (rateLimit && !rateLimit.allowed) {
+    return withHeaders(errorResponse('Rate limit exceeded', 429, 'RATE_LIMITED'), rateLimit.headers);
+  }
+
+  // Traces are only returned synchronously
+  const mode: ResponseMode = isStream ? 'stream' : !trace && isAsyncRequested(request) ? 'async' : 'sync';
+  const response = await runFlowRequest(flow, request, isTest, isStream ? false : trace, mode, startTime);
+  return rateLimit ? withHeaders(response, rateLimit.headers) : response;
+}
+
+// How an execution is answered: with its result, a job to poll or a progress stream
+type ResponseMode = 'sync' | 'async' | 'stream';
+
+// `Prefer: respond-async` (RFC 7240) queues the execution and answers 202 with a job
+function isAsyncRequested(request: Request): boolean {
+  const preferences = (request.headers.get('Prefer') || '').split(',');
+  return preferences.some(preference => preference.split(';')[0].trim().toLowerCase() === 'respond-async');
+}
+
+function formatServerSentEvent(event: ExecutionEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Runs the flow while streaming block progress as Server-Sent Events, ending
+// with the outputs or the error. A client that disconnects cancels the run.
+function streamFlowExecution(
+  flow: Flow,
+  inputs: Record<string, unknown>,
+  request: Request,
+  isTest: boolean,
+  headers: Record<string, string>,
+  startTime: number
+): Response {
+  const encoder = new TextEncoder();
+  const disconnected = new AbortController();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ExecutionEvent) => {
+        if (disconnected.signal.aborted) return;
+        controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+      };
+
+      let result: FlowExecutionResult;
+      try {
+        result = await runFlowExecution(flow, inputs, { isTest, headers, signal: disconnected.signal, onEvent: send });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Execution failed';
+        result = { error: { message, code: 'EXECUTION_ERROR' }, blockExecutions: [] };
+      }
+
+      const endTime = Date.now();
+      if (!isTest) {
+        logExecution(flow, describeRequest(request, inputs), { type: 'stream' }, result, startTime, endTime).catch(console.error);
+      }
+
+      const durationMs = endTime - startTime;
+      send(result.error
+        ? { type: 'failed', error: result.error, durationMs }
+        : { type: 'completed', outputs: result.outputs || {}, durationMs });
+      if (!disconnected.signal.aborted) {
+        controller.close();
+      }
+    },
+    cancel() {
+      disconnected.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// Parses inputs, runs the flow and turns the result into a response
+async function runFlowRequest(
+  flow: Flow,
+  request: Request,
+  isTest: boolean,
+  trace: boolean,
+  mode: ResponseMode,
+  startTime: number
+): Promise<Response> {
   // Parse inputs from request
   let inputs: Record<string, unknown> = {};
 
@@ -50,6 +478,7 @@ async function executeFlow(slug: string, request: Request, isTest: boolean): Pro
     // Get inputs from query parameters
     const url = new URL(request.url);
     url.searchParams.forEach((value, key) => {
+      if (key === TRACE_PARAM) return;
       // Try to parse JSON values
       try {
         inputs[key] = JSON.parse(value);
@@ -66,6 +495,14 @@ async function executeFlow(slug: string, request: Request, isTest: boolean): Pro
     }
   }
 
+  // Header inputs only come from the request headers
+  for (const input of flow.inputs) {
+    if (input.in === 'header') {
+      const value = request.headers.get(input.name);
+      inputs[input.name] = value === null ? undefined : parseHeaderInput(value, input);
+    }
+  }
+
   // Validate required inputs
   for (const input of flow.inputs) {
     if (input.required && inputs[input.name] === undefined) {
@@ -80,21 +517,85 @@ async function executeFlow(slug: string, request: Request, isTest: boolean): Pro
     }
   }
 
+  const callerHeaders = Object.fromEntries(request.headers.entries());
+
+  if (mode === 'stream') {
+    return streamFlowExecution(flow, inputs, request, isTest, callerHeaders, startTime);
+  }
+
+  if (mode === 'async') {
+    const job = await enqueueJob(flow, isTest, {
+      inputs,
+      headers: callerHeaders,
+      request: describeRequest(request, inputs),
+      trigger: { type: 'async' },
+    });
+    return jsonResponse(job, 202, { 'Location': `/api/jobs/${job.id}`, 'Preference-Applied': 'respond-async' });
+  }
+
+  // Only GET executions are cacheable; traces and test runs always run the flow
+  const cacheConfig = request.method === 'GET' && !isTest && !trace ? flow.config?.cache : undefined;
+  const cachePlan = cacheConfig ? getCachePlan(flow, cacheConfig) : undefined;
+  const cachePolicy = cachePlan?.policy;
+  const varyHeaders = cachePlan?.varyHeaders || [];
+  const resultKey = cachePolicy?.serverTtl ? getFlowResultKey(flow, inputs, varyHeaders, callerHeaders) : undefined;
+
+  if (cachePolicy && resultKey && !isCacheBypassed(callerHeaders)) {
+    const cached = await cacheService.getFlowResult(flow._id || '', resultKey) as CachedFlowResult | null;
+    if (cached) {
+      const age = Math.floor((Date.now() - cached.storedAt) / 1000);
+      return cacheableResponse(request, cachePolicy, varyHeaders, cached.outputs, { 'X-Cache': 'HIT', 'Age': String(age) });
+    }
+  }
+
   try {
     // Execute the flow
-    const result = await runFlowExecution(flow, inputs, isTest);
+    const result = await runFlowExecution(flow, inputs, {
+      isTest,
+      trace,
+      headers: callerHeaders,
+    });
 
     const endTime = Date.now();
 
     // Log execution (async, don't wait)
     if (!isTest) {
-      logExecution(flow, inputs, result, startTime, endTime, request).catch(console.error);
+      logExecution(flow, describeRequest(request, inputs), { type: 'http' }, result, startTime, endTime).catch(console.error);
+    }
+
+    if (trace) {
+      return jsonResponse(buildTrace(flow, inputs, result, isTest, endTime - startTime), getResultStatusCode(result));
+    }
+
+    if (result.error?.code === 'EXECUTION_TIMEOUT') {
+      return errorResponse(result.error.message, 504, 'EXECUTION_TIMEOUT');
+    }
+
+    if (result.error && result.status === 'partial') {
+      return errorResponse(`${result.error.message} (rollback incomplete)`, 500, 'ROLLBACK_INCOMPLETE');
     }
 
     if (result.error) {
       return errorResponse(result.error.message, 500, 'EXECUTION_ERROR');
     }
 
+    // A flow whose only output is passthrough binary content returns the raw bytes
+    const outputValues = Object.values(result.outputs || {});
+    const bytes = outputValues.length === 1 ? getPassthroughBytes(outputValues[0]) : undefined;
+    if (bytes) {
+      const { contentType } = outputValues[0] as { contentType: string };
+      return new Response(bytes, { headers: { 'Content-Type': contentType } });
+    }
+
+    if (cachePolicy) {
+      const outputs = result.outputs || {};
+      if (resultKey && cachePolicy.serverTtl) {
+        const entry: CachedFlowResult = { storedAt: Date.now(), outputs };
+        await cacheService.setFlowResult(flow._id || '', resultKey, entry, cachePolicy.serverTtl).catch(console.error);
+      }
+      return cacheableResponse(request, cachePolicy, varyHeaders, outputs, resultKey ? { 'X-Cache': 'MISS' } : {});
+    }
+
     return jsonResponse(result.outputs || {});
 
   } catch (error) {
@@ -104,167 +605,765 @@ async function executeFlow(slug: string, request: Request, isTest: boolean): Pro
   }
 }
 
+const DEFAULT_MAX_CONCURRENCY = 10;
+const DEFAULT_LOOP_CONCURRENCY = 5;
+const MAX_LOOP_CONCURRENCY = 50;
+
+type BlockRunError = { message: string; blockId?: string; code?: string };
+
+interface FlowExecutionResult {
+  // Set when it differs from what `error` implies, e.g. 'partial' after an incomplete rollback
+  status?: ExecutionStatus;
+  outputs?: Record<string, unknown>;
+  error?: BlockRunError;
+  blockExecutions: BlockExecution[];
+  trace?: BlockTraceEntry[];
+}
+
+interface FlowRunOptions {
+  isTest: boolean;
+  trace?: boolean;
+  headers?: Record<string, string>; // incoming request headers
+  signal?: AbortSignal; // cancels the run, e.g. of an async job
+  onEvent?: (event: ExecutionEvent) => void; // progress of streamed runs
+}
+
+interface TraceRecorder {
+  startedAt: number;
+  entries: BlockTraceEntry[];
+}
+
+interface BlockRunOptions {
+  isTest: boolean;
+  blockExecutions: BlockExecution[];
+  // Prepended to block IDs in blockExecutions, e.g. `fetchDetails[3].` inside a loop
+  idPrefix?: string;
+  parallel?: boolean;
+  maxConcurrency?: number;
+  // Aborted when the flow deadline passes; cancels in-flight upstream calls
+  signal?: AbortSignal;
+  deadline?: number;
+  trace?: TraceRecorder;
+  // Flow-wide header forwarding, merged with each block's policy
+  headerPolicy?: HeaderForwardingPolicy;
+  onEvent?: (event: ExecutionEvent) => void;
+}
+
+// Rollbacks get their own deadline; the flow's may already have passed
+const COMPENSATION_TIMEOUT_MS = parseInt(process.env.COMPENSATION_TIMEOUT_MS || '30000', 10);
+
 async function runFlowExecution(
   flow: Flow,
   inputs: Record<string, unknown>,
-  isTest: boolean
-): Promise<{ outputs?: Record<string, unknown>; error?: { message: string; blockId?: string } }> {
+  { isTest, trace = false, headers, signal, onEvent }: FlowRunOptions
+): Promise<FlowExecutionResult> {
   // Initialize execution context
   const context: ExecutionContext = {
     flowId: flow._id || '',
     inputs,
+    headers,
     variables: {},
     blockResults: new Map(),
   };
+  const blockExecutions: BlockExecution[] = [];
+  const recorder: TraceRecorder | undefined = trace ? { startedAt: Date.now(), entries: [] } : undefined;
+
+  // Flow-wide deadline: aborting the controller cancels every in-flight block
+  const timeout = flow.config?.timeout;
+  const controller = new AbortController();
+  const timer = timeout
+    ? setTimeout(() => controller.abort(new DOMException('Flow execution timed out', 'AbortError')), timeout)
+    : undefined;
+  const cancel = () => controller.abort(new DOMException('Flow execution cancelled', 'AbortError'));
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  let error: BlockRunError | undefined;
+  try {
+    error = await Promise.race([
+      runBlocks(flow.blocks, flow.connections, context, {
+        isTest,
+        blockExecutions,
+        parallel: flow.config?.parallel,
+        maxConcurrency: flow.config?.maxConcurrency,
+        signal: controller.signal,
+        deadline: timeout ? Date.now() + timeout : undefined,
+        trace: recorder,
+        headerPolicy: flow.config?.headers,
+        onEvent,
+      }),
+      whenAborted(controller.signal),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+
+  if (controller.signal.aborted) {
+    // Blocks still running report late, so record from a snapshot and
+    // mark everything without a result as cancelled
+    const records = [...blockExecutions];
+    for (const flowBlock of flow.blocks) {
+      if (!context.blockResults.has(flowBlock.id)) {
+        records.push({ blockId: flowBlock.id, blockName: flowBlock.blockId, status: 'cancelled', durationMs: 0 });
+      }
+    }
+    const abortError: BlockRunError = signal?.aborted
+      ? { message: 'Flow execution cancelled', code: 'CANCELLED' }
+      : { message: `Flow execution timed out after ${timeout}ms`, code: 'EXECUTION_TIMEOUT' };
+
+    // Blocks that finished before the abort are undone like after any other failure
+    if (flow.config?.errorHandling === 'rollback') {
+      const rolledBack = await runCompensations(flow, context, {
+        isTest,
+        blockExecutions: records,
+        trace: recorder,
+        headerPolicy: flow.config?.headers,
+        onEvent,
+      });
+      return { status: rolledBack ? 'failure' : 'partial', error: abortError, blockExecutions: records, trace: recorder?.entries };
+    }
+    return { error: abortError, blockExecutions: records, trace: recorder?.entries };
+  }
+
+  if (error) {
+    if (flow.config?.errorHandling === 'rollback') {
+      // A clean rollback leaves nothing applied, so the run is a plain failure;
+      // if any compensation failed some side effects remain and the run is partial
+      const rolledBack = await runCompensations(flow, context, {
+        isTest,
+        blockExecutions,
+        trace: recorder,
+        headerPolicy: flow.config?.headers,
+        onEvent,
+      });
+      return { status: rolledBack ? 'failure' : 'partial', error, blockExecutions, trace: recorder?.entries };
+    }
+    return { error, blockExecutions, trace: recorder?.entries };
+  }
+
+  // Build outputs
+  const outputs: Record<string, unknown> = {};
+  for (const output of flow.outputs) {
+    const blockResult = context.blockResults.get(output.sourceBlockId);
+    if (blockResult?.status === 'skipped') {
+      outputs[output.name] = output.fallback ?? null;
+    } else if (blockResult?.outputs) {
+      outputs[output.name] = blockResult.outputs[output.sourceOutput];
+    }
+  }
+
+  return { outputs, blockExecutions, trace: recorder?.entries };
+}
+
+// Reserves a block's place in the trace when it starts. The entry stays
+// 'cancelled' unless the block reports a result.
+function startTraceEntry(options: BlockRunOptions, blockId: string, blockName: string): BlockTraceEntry | undefined {
+  if (!options.trace) return undefined;
+
+  const entry: BlockTraceEntry = {
+    blockId,
+    blockName,
+    status: 'cancelled',
+    startOffsetMs: Date.now() - options.trace.startedAt,
+    durationMs: 0,
+  };
+  options.trace.entries.push(entry);
+  return entry;
+}
+
+function recordExecution(
+  options: BlockRunOptions,
+  execution: BlockExecution,
+  traceEntry?: BlockTraceEntry,
+  details: Pick<BlockTraceEntry, 'inputs' | 'outputs'> = {}
+): void {
+  options.blockExecutions.push(execution);
+  if (traceEntry) {
+    Object.assign(traceEntry, execution, details);
+  }
+
+  // Streams may reach end users, so upstream requests and responses are left out
+  const { blockId, blockName, status, skipReason, error, mocked, cache, durationMs } = execution;
+  options.onEvent?.({
+    type: status === 'success' ? 'block_completed' : status === 'skipped' ? 'block_skipped' : 'block_failed',
+    blockId,
+    blockName,
+    status,
+    skipReason,
+    error,
+    mocked,
+    cache,
+    durationMs,
+  });
+}
+
+function getResultStatusCode(result: FlowExecutionResult): number {
+  if (result.error?.code === 'EXECUTION_TIMEOUT') return 504;
+  return result.error ? 500 : 200;
+}
+
+function buildTrace(
+  flow: Flow,
+  inputs: Record<string, unknown>,
+  result: FlowExecutionResult,
+  isTest: boolean,
+  durationMs: number
+): ExecutionTrace {
+  return {
+    flowId: flow._id || '',
+    flowVersion: flow.version,
+    test: isTest,
+    result: {
+      status: result.status ?? (result.error ? 'failure' : 'success'),
+      outputs: result.outputs,
+      error: result.error,
+    },
+    inputs,
+    blocks: result.trace || [],
+    durationMs,
+  };
+}
+
+// Runs the compensation of every block that completed, most recent first.
+// Every compensation is attempted; returns false when any of them failed.
+async function runCompensations(
+  flow: Flow,
+  context: ExecutionContext,
+  options: Omit<BlockRunOptions, 'signal' | 'deadline'>
+): Promise<boolean> {
+  // blockResults keeps insertion order, which is the order blocks completed in
+  const completed = [...context.blockResults.entries()]
+    .filter(([, result]) => result.status === 'success' || result.status === 'partial')
+    .map(([blockId]) => blockId)
+    .reverse();
+
+  // All compensations share one deadline; those cut off by it count as failed
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new DOMException('Rollback timed out', 'AbortError')),
+    COMPENSATION_TIMEOUT_MS
+  );
+  const compensationOptions: BlockRunOptions = {
+    ...options,
+    signal: controller.signal,
+    deadline: Date.now() + COMPENSATION_TIMEOUT_MS,
+  };
+
+  let rolledBack = true;
+  try {
+    for (const blockId of completed) {
+      const flowBlock = flow.blocks.find(b => b.id === blockId);
+      if (!flowBlock?.compensation) continue;
+
+      if (!(await runCompensation(flowBlock, context, compensationOptions))) {
+        rolledBack = false;
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return rolledBack;
+}
+
+async function runCompensation(
+  flowBlock: FlowBlock,
+  context: ExecutionContext,
+  options: BlockRunOptions
+): Promise<boolean> {
+  const compensation = flowBlock.compensation!;
+  const recordId = `${flowBlock.id}.compensation`;
+  const start = Date.now();
+  let blockName = compensation.blockId;
+  const traceEntry = startTraceEntry(options, recordId, blockName);
+
+  try {
+    const block = await getBlockDefinition(compensation.blockId);
+    blockName = block?.name || blockName;
+    options.onEvent?.({ type: 'block_started', blockId: recordId, blockName });
+
+    const inputs = resolveInputMappings(recordId, compensation.inputMappings, context);
+    const compensatingBlock: FlowBlock = {
+      id: recordId,
+      blockId: compensation.blockId,
+      position: flowBlock.position,
+      inputMappings: compensation.inputMappings,
+      config: compensation.config,
+      // Compensations follow the block's test-run mode but use their own fixture
+      mock: flowBlock.mock?.mode ? { mode: flowBlock.mock.mode } : undefined,
+    };
+
+    const result: BlockExecutionResult = block
+      ? await executeBlock(block, compensatingBlock, inputs, context, options)
+      : { status: 'failure', error: { message: `Block not found: ${compensation.blockId}` } };
+
+    recordExecution(options, {
+      blockId: recordId,
+      blockName,
+      status: result.status,
+      request: toLoggedRequest(result.request),
+      response: toLoggedResponse(result),
+      error: result.error,
+      attempts: result.attempts,
+      mocked: result.mocked,
+      durationMs: Date.now() - start,
+    }, traceEntry, { inputs, outputs: result.outputs });
+    return result.status === 'success';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Compensation failed';
+    recordExecution(options, {
+      blockId: recordId,
+      blockName,
+      status: 'failure',
+      error: { message },
+      durationMs: Date.now() - start,
+    }, traceEntry);
+    return false;
+  }
+}
+
+// Resolves once the signal aborts; never resolves otherwise
+function whenAborted(signal: AbortSignal): Promise<BlockRunError> {
+  return new Promise(resolve => {
+    signal.addEventListener('abort', () => resolve({ message: 'Flow execution cancelled', code: 'CANCELLED' }), { once: true });
+  });
+}
+
+// Caps the block's own timeout to whatever is left of the flow deadline
+function getBlockTimeout(blockTimeout: number | undefined, deadline: number | undefined): number | undefined {
+  if (deadline === undefined) return blockTimeout;
+  const remaining = Math.max(deadline - Date.now(), 0);
+  return blockTimeout === undefined ? remaining : Math.min(blockTimeout, remaining);
+}
+
+// Runs a graph of blocks against the given context, either one at a time in
+// topological order or, when parallel, each block as soon as its predecessors finish.
+// Returns the error that stopped execution, if any.
+async function runBlocks(
+  blocks: FlowBlock[],
+  connections: Connection[],
+  context: ExecutionContext,
+  options: BlockRunOptions
+): Promise<BlockRunError | undefined> {
+  if (options.parallel) {
+    return runBlocksInParallel(blocks, connections, context, options);
+  }
 
   // Get execution order (topological sort)
-  const executionOrder = topologicalSort(flow.blocks, flow.connections);
+  const executionOrder = topologicalSort(blocks, connections);
 
   // Execute blocks in order
   for (const blockId of executionOrder) {
-    const flowBlock = flow.blocks.find(b => b.id === blockId);
+    const flowBlock = blocks.find(b => b.id === blockId);
     if (!flowBlock) continue;
 
-    try {
-      // Resolve input mappings
-      const blockInputs = resolveInputMappings(flowBlock.inputMappings, context);
-
-      // Execute the block
-      const result = await executeBlock(flowBlock.blockId, blockInputs, flowBlock.config, isTest);
-
-      // Store result
-      context.blockResults.set(blockId, result);
-
-      // Check for errors
-      if (result.error && !flowBlock.config?.continueOnError) {
-        return {
-          error: {
-            message: result.error.message,
-            blockId,
-          },
-        };
+    const error = await runBlock(flowBlock, connections, context, options);
+    if (error) return error;
+  }
+
+  return undefined;
+}
+
+async function runBlocksInParallel(
+  blocks: FlowBlock[],
+  connections: Connection[],
+  context: ExecutionContext,
+  options: BlockRunOptions
+): Promise<BlockRunError | undefined> {
+  const maxConcurrency = Math.max(options.maxConcurrency || DEFAULT_MAX_CONCURRENCY, 1);
+  const blockMap = new Map(blocks.map(block => [block.id, block]));
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const block of blocks) {
+    remaining.set(block.id, 0);
+    dependents.set(block.id, []);
+  }
+  for (const conn of connections) {
+    if (!blockMap.has(conn.fromBlockId) || !blockMap.has(conn.toBlockId)) continue;
+    dependents.get(conn.fromBlockId)!.push(conn.toBlockId);
+    remaining.set(conn.toBlockId, remaining.get(conn.toBlockId)! + 1);
+  }
+
+  const ready = blocks.filter(block => remaining.get(block.id) === 0).map(block => block.id);
+  const running = new Set<Promise<void>>();
+  let failure: BlockRunError | undefined;
+
+  const start = (blockId: string) => {
+    const task = runBlock(blockMap.get(blockId)!, connections, context, options).then(error => {
+      if (error) {
+        failure ??= error;
+        return;
       }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Block execution failed';
-      if (!flowBlock.config?.continueOnError) {
-        return {
-          error: {
-            message,
-            blockId,
-          },
-        };
+      for (const next of dependents.get(blockId)!) {
+        const count = remaining.get(next)! - 1;
+        remaining.set(next, count);
+        if (count === 0) ready.push(next);
       }
+    });
+    running.add(task);
+    task.finally(() => running.delete(task));
+  };
+
+  while (ready.length > 0 || running.size > 0) {
+    // After a failure no new blocks start; in-flight blocks are allowed to finish
+    while (!failure && ready.length > 0 && running.size < maxConcurrency) {
+      start(ready.shift()!);
     }
+    if (running.size === 0) break;
+    await Promise.race(running);
   }
 
-  // Build outputs
-  const outputs: Record<string, unknown> = {};
-  for (const output of flow.outputs) {
-    const blockResult = context.blockResults.get(output.sourceBlockId);
-    if (blockResult?.outputs) {
-      outputs[output.name] = blockResult.outputs[output.sourceOutput];
+  return failure;
+}
+
+// Runs a single block: skip check, input resolution, execution and recording.
+// Returns an error only when it should stop the flow.
+async function runBlock(
+  flowBlock: FlowBlock,
+  connections: Connection[],
+  context: ExecutionContext,
+  options: BlockRunOptions
+): Promise<BlockRunError | undefined> {
+  const { idPrefix = '' } = options;
+  const blockId = flowBlock.id;
+
+  const blockStart = Date.now();
+  const recordId = `${idPrefix}${blockId}`;
+  let blockName = flowBlock.blockId;
+
+  // Nothing new starts once the flow has been cancelled
+  if (options.signal?.aborted) {
+    return { message: 'Flow execution cancelled', blockId: recordId, code: 'CANCELLED' };
+  }
+
+  const traceEntry = startTraceEntry(options, recordId, blockName);
+  let blockInputs: Record<string, unknown> | undefined;
+
+  try {
+    const block = await getBlockDefinition(flowBlock.blockId);
+    blockName = block?.name || blockName;
+
+    // Skip blocks whose incoming connections are all inactive
+    const skipReason = getSkipReason(blockId, connections, context);
+    if (skipReason) {
+      context.blockResults.set(blockId, { status: 'skipped', skipReason });
+      recordExecution(options, { blockId: recordId, blockName, status: 'skipped', skipReason, durationMs: 0 }, traceEntry);
+      return undefined;
+    }
+
+    options.onEvent?.({ type: 'block_started', blockId: recordId, blockName });
+
+    // Resolve input mappings
+    blockInputs = resolveInputMappings(flowBlock.id, flowBlock.inputMappings, context);
+
+    // Execute the block
+    const result: BlockExecutionResult = block
+      ? await executeBlock(block, flowBlock, blockInputs, context, options)
+      : { status: 'failure', error: { message: `Block not found: ${flowBlock.blockId}` } };
+
+    // Store result
+    context.blockResults.set(blockId, result);
+    recordExecution(options, {
+      blockId: recordId,
+      blockName,
+      status: result.status,
+      request: toLoggedRequest(result.request),
+      response: toLoggedResponse(result),
+      error: result.error,
+      attempts: result.attempts,
+      mocked: result.mocked,
+      cache: result.cache,
+      durationMs: Date.now() - blockStart,
+    }, traceEntry, { inputs: blockInputs, outputs: result.outputs });
+
+    // Check for errors
+    if (result.error && !flowBlock.config?.continueOnError) {
+      return {
+        message: result.error.message,
+        blockId: recordId,
+      };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Block execution failed';
+    context.blockResults.set(blockId, { status: 'failure', error: { message } });
+    recordExecution(options, {
+      blockId: recordId,
+      blockName,
+      status: 'failure',
+      error: { message },
+      durationMs: Date.now() - blockStart,
+    }, traceEntry, { inputs: blockInputs });
+    if (!flowBlock.config?.continueOnError) {
+      return {
+        message,
+        blockId: recordId,
+      };
     }
   }
 
-  return { outputs };
+  return undefined;
 }
 
-async function executeBlock(
+// A block with incoming connections runs only if at least one of them is active.
+// A connection is inactive when its source was skipped, its branch does not match
+// the source condition result, or its condition expression is falsy.
+function getSkipReason(
   blockId: string,
-  inputs: Record<string, unknown>,
-  config?: { timeout?: number; retryCount?: number },
-  isTest: boolean = false
-): Promise<BlockExecutionResult> {
-  // Get block definition
-  let block = await cacheService.getBlock(blockId);
+  connections: Connection[],
+  context: ExecutionContext
+): string | null {
+  const incoming = connections.filter(conn => conn.toBlockId === blockId);
+  if (incoming.length === 0) return null;
 
-  if (!block) {
-    const db = getDatabase();
-    const collection = db.collection(COLLECTIONS.BLOCKS);
-    const { ObjectId } = await import('mongodb');
-    block = await collection.findOne({ _id: new ObjectId(blockId) });
+  const reasons: string[] = [];
+  let scope: Record<string, unknown> | null = null;
+
+  for (const conn of incoming) {
+    const source = context.blockResults.get(conn.fromBlockId);
 
-    if (block) {
-      await cacheService.setBlock(blockId, block);
+    if (!source || source.status === 'skipped') {
+      reasons.push(`${conn.fromBlockId} was skipped`);
+      continue;
+    }
+
+    if (conn.branch && String(Boolean(source.outputs?.result)) !== conn.branch) {
+      reasons.push(`${conn.fromBlockId} took the ${conn.branch === 'true' ? 'false' : 'true'} branch`);
+      continue;
+    }
+
+    if (conn.condition?.expression) {
+      scope ??= buildExpressionScope(context);
+      let passed: unknown;
+      try {
+        passed = evaluateExpression(conn.condition.expression, scope);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Expression evaluation failed';
+        throw new Error(`Condition on connection "${conn.id}" to block "${blockId}" failed: ${message}`);
+      }
+      if (!passed) {
+        reasons.push(`condition on connection ${conn.id} was false`);
+        continue;
+      }
     }
+
+    return null;
   }
 
-  if (!block) {
-    return {
-      status: 'failure',
-      error: { message: `Block not found: ${blockId}` },
-    };
+  return reasons.join('; ');
+}
+
+async function executeBlock(
+  block: Block,
+  flowBlock: FlowBlock,
+  inputs: Record<string, unknown>,
+  context: ExecutionContext,
+  options: BlockRunOptions
+): Promise<BlockExecutionResult> {
+  const config = flowBlock.config;
+
+  // Loops run their sub-graph even in test mode; the nested blocks are mocked instead
+  if (block.type === 'loop') {
+    return executeLoop(flowBlock, inputs, context, options);
   }
 
-  // For test mode, return mock data
-  if (isTest) {
-    return {
-      status: 'success',
-      outputs: { _test: true, blockId },
-    };
+  // Test runs answer upstream calls from fixtures unless the block opts into the real API
+  if (options.isTest && shouldMockBlock(block, flowBlock)) {
+    return executeMock(block, flowBlock, options.signal);
   }
 
   // Build request based on block type
   if (block.type === 'api_call') {
-    return executeApiCall(block, inputs, config);
+    const forwardedHeaders = resolveForwardedHeaders(mergeHeaderPolicies(options.headerPolicy, config?.headers), context);
+    const apiRequest = buildApiRequest(block, inputs, forwardedHeaders);
+    const credentialId = flowBlock.credentialId || block.source.credentialId;
+    const retryPolicy = resolveRetryPolicy(config, block.source.method);
+    const circuitBreaker = resolveCircuitBreaker(config?.circuitBreaker);
+    const callUpstream = (signal?: AbortSignal, deadline?: number) => executeWithRetry(
+      retryPolicy,
+      async () => {
+        let auth: CredentialAuth | undefined;
+        if (credentialId) {
+          try {
+            auth = await getCredentialAuth(credentialId);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Credential could not be used';
+            return { status: 'failure', error: { message, code: 'CREDENTIAL_ERROR' } };
+          }
+        }
+
+        // Each attempt gets a fresh timeout limited to the remaining flow time
+        const timeout = getBlockTimeout(config?.timeout, deadline);
+        const signals = [signal, timeout !== undefined ? AbortSignal.timeout(timeout) : undefined]
+          .filter((item): item is AbortSignal => item !== undefined);
+        const result = await executeWithCircuitBreaker(apiRequest.url, circuitBreaker, () =>
+          executeApiCall(block, apiRequest, auth, signals.length ? AbortSignal.any(signals) : undefined)
+        );
+
+        // A rejected OAuth2 token is fetched again on the next call
+        if (credentialId && result.rawResponse?.statusCode === 401) {
+          await invalidateCredentialToken(credentialId);
+        }
+        return result;
+      },
+      signal
+    );
+
+    // Cached responses are shared by all callers sending the same request with the same credential
+    if (config?.cache && block.source.method === 'GET' && block.source.response?.binary !== 'passthrough') {
+      const cacheKey = getBlockCacheKey(String(block._id), {
+        method: block.source.method,
+        url: apiRequest.url,
+        query: [...apiRequest.query.entries()],
+        headers: Object.entries(apiRequest.headers).map(([name, value]) => [name.toLowerCase(), value]).sort(),
+        credentialId,
+      });
+      return executeWithCache(
+        cacheKey,
+        config.cache,
+        () => callUpstream(options.signal, options.deadline),
+        () => callUpstream(),
+        isCacheBypassed(context.headers)
+      );
+    }
+
+    return callUpstream(options.signal, options.deadline);
   }
 
   if (block.type === 'transform') {
     return executeTransform(block, inputs);
   }
 
+  if (block.type === 'condition') {
+    return executeCondition(block, inputs);
+  }
+
+  if (block.type === 'aggregate') {
+    return executeAggregate(block, inputs);
+  }
+
   return {
     status: 'failure',
     error: { message: `Unsupported block type: ${block.type}` },
   };
 }
 
-async function executeApiCall(
-  block: any,
-  inputs: Record<string, unknown>,
-  config?: { timeout?: number }
-): Promise<BlockExecutionResult> {
-  const { source } = block;
+// An upstream request resolved from block inputs, before credentials are added
+interface ApiRequest {
+  url: string; // without the query string
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: unknown;
+}
 
+function buildApiRequest(
+  block: Block,
+  inputs: Record<string, unknown>,
+  forwardedHeaders: Record<string, string>
+): ApiRequest {
   // Build URL with path parameters
-  let url = `${source.serverUrl || ''}${source.path}`;
+  let url = `${block.source.serverUrl || ''}${block.source.path}`;
   const queryParams = new URLSearchParams();
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const headers: Record<string, string> = { ...forwardedHeaders };
   let body: unknown = undefined;
 
-  for (const input of block.inputs) {
+  // Inputs that set the whole body go first so pointer inputs can fill it in
+  const orderedInputs = [...block.inputs].sort((a, b) => Number(Boolean(a.pointer)) - Number(Boolean(b.pointer)));
+
+  for (const input of orderedInputs) {
     const value = inputs[input.name];
     if (value === undefined) continue;
 
     switch (input.in) {
       case 'path':
-        url = url.replace(`{${input.name}}`, encodeURIComponent(String(value)));
+        url = url.replace(`{${input.name}}`, encodeURIComponent(serializeSimpleParameter(value)));
         break;
       case 'query':
-        queryParams.set(input.name, String(value));
+        for (const [name, param] of serializeQueryParameter(input.name, value, input.style, input.explode)) {
+          queryParams.append(name, param);
+        }
         break;
       case 'header':
-        headers[input.name] = String(value);
+        // Block inputs replace forwarded headers of the same name
+        for (const name of Object.keys(headers)) {
+          if (name.toLowerCase() === input.name.toLowerCase()) delete headers[name];
+        }
+        headers[input.name] = serializeSimpleParameter(value);
         break;
       case 'body':
-        body = value;
+        body = input.pointer ? setJsonPointer(body, input.pointer, value) : value;
         break;
     }
   }
 
-  if (queryParams.toString()) {
-    url += `?${queryParams.toString()}`;
+  return { url, query: queryParams, headers, body };
+}
+
+async function executeApiCall(
+  block: Block,
+  { url, query, headers: requestHeaders, body }: ApiRequest,
+  auth?: CredentialAuth,
+  signal?: AbortSignal
+): Promise<BlockExecutionResult> {
+  const { source } = block;
+  // Copied since retries send the same request again
+  const queryParams = new URLSearchParams(query);
+  const headers = { ...requestHeaders };
+
+  const encoded = body !== undefined ? encodeRequestBody(body, source.requestContentType) : undefined;
+  if (encoded?.contentType && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = encoded.contentType;
   }
 
+  // Credential values are sent upstream but recorded as redacted
+  const loggedQuery = new URLSearchParams(queryParams);
+  const loggedHeaders = { ...headers };
+  const sentHeaders = { ...headers };
+  for (const [name, value] of auth?.query || []) {
+    queryParams.append(name, value);
+    loggedQuery.append(name, REDACTED);
+  }
+  for (const [name, value] of Object.entries(auth?.headers || {})) {
+    for (const existing of Object.keys(sentHeaders)) {
+      if (existing.toLowerCase() === name.toLowerCase()) {
+        delete sentHeaders[existing];
+        delete loggedHeaders[existing];
+      }
+    }
+    sentHeaders[name] = value;
+    loggedHeaders[name] = REDACTED;
+  }
+
+  const withQuery = (params: URLSearchParams) => params.toString() ? `${url}?${params.toString()}` : url;
+
+  // Recorded on every result so the execution log shows what was actually sent
+  const request = { url: withQuery(loggedQuery), method: source.method, headers: loggedHeaders, body };
+
+  let response: Response;
   try {
-    const response = await fetch(url, {
+    response = await fetch(withQuery(queryParams), {
       method: source.method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-      signal: config?.timeout ? AbortSignal.timeout(config.timeout) : undefined,
+      headers: sentHeaders,
+      body: encoded?.body,
+      signal,
     });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'API call failed';
+    const name = error instanceof Error || error instanceof DOMException ? error.name : '';
+    if (name === 'AbortError') {
+      return { status: 'cancelled', request, error: { message, code: 'CANCELLED' } };
+    }
+    return {
+      status: 'failure',
+      request,
+      error: { message, code: name === 'TimeoutError' ? 'TIMEOUT' : 'NETWORK_ERROR' },
+    };
+  }
 
-    const data = await response.json();
+  let bytes = new Uint8Array();
+  try {
+    bytes = new Uint8Array(await response.arrayBuffer());
+    const data = decodeResponseBody(bytes, response.headers.get('content-type'), response.status, source.response);
 
     // Extract outputs using JSONPath
     const outputs: Record<string, unknown> = {};
@@ -275,29 +1374,202 @@ async function executeApiCall(
     return {
       status: response.ok ? 'success' : 'failure',
       outputs,
+      request,
       rawResponse: {
         statusCode: response.status,
         data,
         headers: Object.fromEntries(response.headers.entries()),
       },
+      error: response.ok
+        ? undefined
+        : { message: `Upstream responded with status ${response.status}`, code: 'HTTP_ERROR' },
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : 'API call failed';
+    if (signal?.aborted) {
+      return { status: 'cancelled', request, error: { message, code: 'CANCELLED' } };
+    }
     return {
       status: 'failure',
-      error: { message },
+      request,
+      rawResponse: {
+        statusCode: response.status,
+        // Keep the raw body so unparseable responses still show up in the execution log
+        data: describeResponseBody(bytes, response.headers.get('content-type')),
+        headers: Object.fromEntries(response.headers.entries()),
+      },
+      error: { message, code: 'PARSE_ERROR' },
     };
   }
 }
 
 async function executeTransform(
-  block: any,
+  block: Block,
+  inputs: Record<string, unknown>
+): Promise<BlockExecutionResult> {
+  try {
+    const data = applyTransform(block.transform, inputs);
+
+    // Without declared outputs, every top-level field of the result is an output
+    if (!block.outputs.length) {
+      return { status: 'success', outputs: data };
+    }
+
+    const outputs: Record<string, unknown> = {};
+    for (const output of block.outputs) {
+      outputs[output.name] = extractJsonPath(data, output.path);
+    }
+
+    return { status: 'success', outputs };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Transform failed';
+    return {
+      status: 'failure',
+      error: { message: `Transform failed: ${message}` },
+    };
+  }
+}
+
+async function executeAggregate(
+  block: Block,
+  inputs: Record<string, unknown>
+): Promise<BlockExecutionResult> {
+  try {
+    const data = { result: applyAggregate(block.aggregate, inputs) };
+
+    if (!block.outputs.length) {
+      return { status: 'success', outputs: data };
+    }
+
+    const outputs: Record<string, unknown> = {};
+    for (const output of block.outputs) {
+      outputs[output.name] = extractJsonPath(data, output.path);
+    }
+
+    return { status: 'success', outputs };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Aggregate failed';
+    return {
+      status: 'failure',
+      error: { message: `Aggregate failed: ${message}` },
+    };
+  }
+}
+
+async function executeCondition(
+  block: Block,
   inputs: Record<string, unknown>
 ): Promise<BlockExecutionResult> {
-  // TODO: Implement data transformation logic
+  if (!block.condition?.expression) {
+    return {
+      status: 'failure',
+      error: { message: `Condition block "${block.name}" has no expression` },
+    };
+  }
+
+  try {
+    const value = evaluateExpression(block.condition.expression, { inputs });
+    return {
+      status: 'success',
+      outputs: { result: Boolean(value), value },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Expression evaluation failed';
+    return {
+      status: 'failure',
+      error: { message: `Condition failed: ${message}` },
+    };
+  }
+}
+
+async function executeLoop(
+  flowBlock: FlowBlock,
+  inputs: Record<string, unknown>,
+  context: ExecutionContext,
+  options: BlockRunOptions
+): Promise<BlockExecutionResult> {
+  const loop = flowBlock.loop;
+  if (!loop?.blocks?.length) {
+    return {
+      status: 'failure',
+      error: { message: `Loop block "${flowBlock.id}" has no nested blocks` },
+    };
+  }
+
+  const items = inputs.items;
+  if (!Array.isArray(items)) {
+    return {
+      status: 'failure',
+      error: { message: `Loop block "${flowBlock.id}" expects an array for input "items"` },
+    };
+  }
+
+  const errorPolicy = loop.errorPolicy || 'stop';
+  const concurrency = Math.min(Math.max(loop.concurrency || DEFAULT_LOOP_CONCURRENCY, 1), MAX_LOOP_CONCURRENCY);
+  const results: unknown[] = new Array(items.length).fill(null);
+  const succeeded: boolean[] = new Array(items.length).fill(false);
+  const errors: Array<{ index: number; message: string; blockId?: string }> = [];
+  let stopped = false;
+  let nextIndex = 0;
+
+  const runIteration = async (index: number) => {
+    // Each iteration sees the outer results plus its own nested results,
+    // with the current element exposed as variables.item / variables.index
+    const iterationContext: ExecutionContext = {
+      flowId: context.flowId,
+      inputs: context.inputs,
+      headers: context.headers,
+      variables: { ...context.variables, item: items[index], index },
+      blockResults: new Map(context.blockResults),
+    };
+
+    const error = await runBlocks(loop.blocks, loop.connections || [], iterationContext, {
+      ...options,
+      idPrefix: `${options.idPrefix || ''}${flowBlock.id}[${index}].`,
+    });
+
+    if (error) {
+      errors.push({ index, ...error });
+      if (errorPolicy === 'stop') stopped = true;
+      return;
+    }
+
+    succeeded[index] = true;
+    if (loop.output) {
+      const outputs = iterationContext.blockResults.get(loop.output.blockId)?.outputs;
+      results[index] = loop.output.outputName ? outputs?.[loop.output.outputName] : outputs;
+    }
+  };
+
+  // Simple worker pool: each worker pulls the next index until items run out
+  const worker = async () => {
+    while (!stopped && nextIndex < items.length) {
+      await runIteration(nextIndex++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+  errors.sort((a, b) => a.index - b.index);
+
+  if (errorPolicy === 'stop' && errors.length > 0) {
+    const [first] = errors;
+    return {
+      status: 'failure',
+      error: { message: `Loop iteration ${first.index} failed: ${first.message}` },
+    };
+  }
+
+  const collected = errorPolicy === 'skip'
+    ? results.filter((_, index) => succeeded[index])
+    : results;
+
   return {
-    status: 'success',
-    outputs: inputs,
+    status: errors.length > 0 ? 'partial' : 'success',
+    outputs: {
+      results: collected,
+      errors,
+      count: collected.length,
+    },
   };
 }
 
@@ -342,10 +1614,12 @@ function topologicalSort(blocks: Flow['blocks'], connections: Flow['connections'
 
 // Resolve input mappings
 function resolveInputMappings(
+  blockId: string,
   mappings: Flow['blocks'][0]['inputMappings'],
   context: ExecutionContext
 ): Record<string, unknown> {
   const result: Record<string, unknown> = {};
+  let expressionScope: Record<string, unknown> | null = null;
 
   for (const mapping of mappings) {
     switch (mapping.source.type) {
@@ -362,8 +1636,13 @@ function resolveInputMappings(
         result[mapping.targetInput] = mapping.source.value;
         break;
       case 'expression':
-        // TODO: Implement expression evaluation
-        result[mapping.targetInput] = mapping.source.expression;
+        expressionScope ??= buildExpressionScope(context);
+        try {
+          result[mapping.targetInput] = evaluateExpression(mapping.source.expression || '', expressionScope);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Expression evaluation failed';
+          throw new Error(`Expression for input "${mapping.targetInput}" of block "${blockId}" failed: ${message}`);
+        }
         break;
     }
   }
@@ -371,40 +1650,24 @@ function resolveInputMappings(
   return result;
 }
 
-// Simple JSONPath extractor
-function extractJsonPath(data: unknown, path: string): unknown {
-  if (!path || path === '$') return data;
-
-  const parts = path.replace(/^\$\.?/, '').split('.');
-  let current: unknown = data;
-
-  for (const part of parts) {
-    if (current === null || current === undefined) return undefined;
-
-    // Handle array index
-    const arrayMatch = part.match(/^(\w+)\[(\d+)\]$/);
-    if (arrayMatch) {
-      const [, key, index] = arrayMatch;
-      current = (current as Record<string, unknown>)[key];
-      if (Array.isArray(current)) {
-        current = current[parseInt(index, 10)];
-      }
-    } else {
-      current = (current as Record<string, unknown>)[part];
-    }
-  }
-
-  return current;
+// Log execution
+// Request details kept in the execution log, with sensitive headers redacted
+function describeRequest(request: Request, inputs: Record<string, unknown>): ExecutionRequest {
+  return {
+    inputs,
+    headers: redactHeaders(Object.fromEntries(request.headers.entries())),
+    ip: request.headers.get('x-forwarded-for') || undefined,
+    userAgent: request.headers.get('user-agent') || undefined,
+  };
 }
 
-// Log execution
 async function logExecution(
   flow: Flow,
-  inputs: Record<string, unknown>,
-  result: { outputs?: Record<string, unknown>; error?: { message: string; blockId?: string } },
+  request: ExecutionRequest,
+  trigger: ExecutionTrigger,
+  result: FlowExecutionResult,
   startTime: number,
-  endTime: number,
-  request: Request
+  endTime: number
 ): Promise<void> {
   const db = getDatabase();
   const collection = db.collection<ExecutionLog>(COLLECTIONS.EXECUTION_LOGS);
@@ -412,18 +1675,14 @@ async function logExecution(
   const log: Omit<ExecutionLog, '_id'> = {
     flowId: flow._id || '',
     flowVersion: flow.version,
-    request: {
-      inputs,
-      headers: Object.fromEntries(request.headers.entries()),
-      ip: request.headers.get('x-forwarded-for') || undefined,
-      userAgent: request.headers.get('user-agent') || undefined,
-    },
+    trigger,
+    request,
     result: {
-      status: result.error ? 'failure' : 'success',
+      status: result.status ?? (result.error ? 'failure' : 'success'),
       outputs: result.outputs,
       error: result.error,
     },
-    blockExecutions: [], // TODO: Collect block execution details
+    blockExecutions: result.blockExecutions,
     performance: {
       startedAt: new Date(startTime),
       completedAt: new Date(endTime),
@@ -2,8 +2,10 @@ import { ObjectId } from 'mongodb';
 import { getDatabase, COLLECTIONS } from '../../config/database';
 import { cacheService } from '../../config/redis';
 import { authenticate } from '../../middleware/auth';
+import { validateRateLimitConfig } from '../../middleware/rateLimit';
 import { jsonResponse, errorResponse, paginatedResponse } from '../../utils/response';
-import type { Flow, CreateFlowDto, UpdateFlowDto } from '@codeblock-bff/shared';
+import { validateFlow, formatValidationIssues, validateFlowMocks, validateFlowHeaders, validateFlowCaching, validateFlowCircuitBreakers } from '../../engine';
+import type { Flow, FlowBlock, FlowConfig, CreateFlowDto, UpdateFlowDto } from '@codeblock-bff/shared';
 
 export async function handleFlowsApi(request: Request, path: string): Promise<Response> {
   const url = new URL(request.url);
@@ -19,6 +21,10 @@ export async function handleFlowsApi(request: Request, path: string): Promise<Re
     return publishFlow(flowId, request);
   }
 
+  if (flowId && action === 'validate' && method === 'POST') {
+    return validateStoredFlow(flowId, request);
+  }
+
   if (flowId && action === 'clone' && method === 'POST') {
     return cloneFlow(flowId, request);
   }
@@ -124,6 +130,19 @@ async function getFlow(flowId: string): Promise<Response> {
   return jsonResponse(flow);
 }
 
+// Returns a message describing the first problem with the flow's settings
+// (mocks, header forwarding, caching, circuit breakers, rate limit), or null
+function validateFlowConfig(config: FlowConfig | undefined, blocks: FlowBlock[]): string | null {
+  const blockError = validateFlowMocks(blocks)
+    || validateFlowHeaders(config, blocks)
+    || validateFlowCaching(config, blocks)
+    || validateFlowCircuitBreakers(blocks);
+  if (blockError) return blockError;
+
+  const rateLimitError = config?.rateLimit ? validateRateLimitConfig(config.rateLimit) : null;
+  return rateLimitError ? `config.rateLimit: ${rateLimitError}` : null;
+}
+
 async function createFlow(request: Request): Promise<Response> {
   // Authentication required
   const authResult = await authenticate(request);
@@ -148,6 +167,11 @@ async function createFlow(request: Request): Promise<Response> {
     return errorResponse('Slug must be lowercase alphanumeric with hyphens only', 400);
   }
 
+  const configError = validateFlowConfig(body.config, body.blocks || []);
+  if (configError) {
+    return errorResponse(configError, 400);
+  }
+
   const db = getDatabase();
   const collection = db.collection(COLLECTIONS.FLOWS);
 
@@ -174,6 +198,9 @@ async function createFlow(request: Request): Promise<Response> {
     createdBy: authResult.user.sub,
   };
 
+  // Drafts may be saved with problems; the result is stored so the editor can show them
+  flow.validation = await validateFlow(flow);
+
   const result = await collection.insertOne(flow);
 
   return jsonResponse(
@@ -203,6 +230,11 @@ async function updateFlow(flowId: string, request: Request): Promise<Response> {
     return errorResponse('Invalid flow ID', 400);
   }
 
+  const configError = validateFlowConfig(body.config, body.blocks || []);
+  if (configError) {
+    return errorResponse(configError, 400);
+  }
+
   const db = getDatabase();
   const collection = db.collection<Flow>(COLLECTIONS.FLOWS);
 
@@ -226,6 +258,7 @@ async function updateFlow(flowId: string, request: Request): Promise<Response> {
 
   const updateData: Record<string, unknown> = {
     ...body,
+    validation: await validateFlow({ ...currentFlow, ...body }),
     updatedAt: new Date(),
   };
 
@@ -273,6 +306,9 @@ async function deleteFlow(flowId: string, request: Request): Promise<Response> {
 
   await collection.deleteOne({ _id: objectId });
 
+  // Schedules of the flow would only ever be skipped from now on
+  await db.collection(COLLECTIONS.SCHEDULES).deleteMany({ flowId });
+
   // Invalidate cache
   await cacheService.invalidateFlow(flowId, flow.slug);
 
@@ -296,11 +332,24 @@ async function publishFlow(flowId: string, request: Request): Promise<Response>
   const db = getDatabase();
   const collection = db.collection<Flow>(COLLECTIONS.FLOWS);
 
+  const flow = await collection.findOne({ _id: objectId });
+  if (!flow) {
+    return errorResponse('Flow not found', 404);
+  }
+
+  // Only structurally valid graphs can be published
+  const validation = await validateFlow(flow);
+  if (!validation.valid) {
+    await collection.updateOne({ _id: objectId }, { $set: { validation } });
+    return errorResponse(`Flow has validation errors: ${formatValidationIssues(validation.issues)}`, 400, 'INVALID_FLOW');
+  }
+
   const result = await collection.findOneAndUpdate(
     { _id: objectId },
     {
       $set: {
         status: 'published',
+        validation,
         publishedAt: new Date(),
         updatedAt: new Date(),
       },
@@ -319,6 +368,40 @@ async function publishFlow(flowId: string, request: Request): Promise<Response>
   return jsonResponse(result);
 }
 
+async function validateStoredFlow(flowId: string, request: Request): Promise<Response> {
+  // Authentication required; the result is stored on the flow
+  const authResult = await authenticate(request);
+  if (!authResult.authenticated) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(flowId);
+  } catch {
+    return errorResponse('Invalid flow ID', 400);
+  }
+
+  const db = getDatabase();
+  const collection = db.collection<Flow>(COLLECTIONS.FLOWS);
+
+  const flow = await collection.findOne({ _id: objectId });
+  if (!flow) {
+    return errorResponse('Flow not found', 404);
+  }
+
+  const validation = await validateFlow(flow);
+  const configError = validateFlowConfig(flow.config, flow.blocks);
+  if (configError) {
+    validation.valid = false;
+    validation.issues.push({ code: 'INVALID_CONFIG', message: configError });
+  }
+  await collection.updateOne({ _id: objectId }, { $set: { validation } });
+  await cacheService.invalidateFlow(flowId, flow.slug);
+
+  return jsonResponse(validation);
+}
+
 async function cloneFlow(flowId: string, request: Request): Promise<Response> {
   // Authentication required
   const authResult = await authenticate(request);
@@ -0,0 +1,50 @@
+import { jsonResponse, errorResponse } from '../../utils/response';
+import { getJob, cancelJob } from '../../engine';
+
+// Job IDs are random UUIDs handed out only to the caller that started the job
+export async function handleJobsApi(request: Request, path: string): Promise<Response> {
+  const method = request.method;
+
+  const pathParts = path.split('/').filter(Boolean);
+  const jobId = pathParts.length > 2 ? pathParts[2] : null;
+
+  if (!jobId) {
+    return errorResponse('Job ID required', 400);
+  }
+
+  switch (method) {
+    case 'GET':
+      return getJobStatus(jobId);
+
+    case 'DELETE':
+      return cancelQueuedJob(jobId);
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+async function getJobStatus(jobId: string): Promise<Response> {
+  const job = await getJob(jobId);
+
+  if (!job) {
+    return errorResponse('Job not found or expired', 404);
+  }
+
+  return jsonResponse(job);
+}
+
+async function cancelQueuedJob(jobId: string): Promise<Response> {
+  const job = await cancelJob(jobId);
+
+  if (!job) {
+    return errorResponse('Job not found or expired', 404);
+  }
+
+  if (job.status === 'completed' || job.status === 'failed') {
+    return errorResponse(`Job has already ${job.status}`, 409, 'JOB_FINISHED');
+  }
+
+  // Running jobs stop shortly after; their status changes to cancelled then
+  return jsonResponse(job, 202);
+}
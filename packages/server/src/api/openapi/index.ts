@@ -214,6 +214,12 @@ async function generateOpenApiDoc(): Promise<OpenApiDocument> {
             source: { $ref: '#/components/schemas/BlockSource' },
             inputs: { type: 'array', items: { $ref: '#/components/schemas/InputDefinition' } },
             outputs: { type: 'array', items: { $ref: '#/components/schemas/OutputDefinition' } },
+            transform: { $ref: '#/components/schemas/TransformTemplate' },
+            condition: { type: 'object', properties: { expression: { type: 'string' } } },
+            aggregate: {
+              type: 'object',
+              properties: { mode: { type: 'string', enum: ['merge', 'concat', 'join', 'groupBy', 'reduce'] } },
+            },
             category: { type: 'string' },
             tags: { type: 'array', items: { type: 'string' } },
             createdAt: { type: 'string', format: 'date-time' },
@@ -249,9 +255,24 @@ async function generateOpenApiDoc(): Promise<OpenApiDocument> {
             description: { type: 'string' },
           },
         },
+        TransformTemplate: {
+          type: 'object',
+          properties: {
+            steps: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  op: { type: 'string', enum: ['pick', 'omit', 'rename', 'defaults', 'set', 'map', 'filter', 'flatten', 'merge'] },
+                  path: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
         CreateBlockDto: {
           type: 'object',
-          required: ['name', 'type', 'source'],
+          required: ['name', 'type'],
           properties: {
             name: { type: 'string' },
             description: { type: 'string' },
@@ -259,6 +280,12 @@ async function generateOpenApiDoc(): Promise<OpenApiDocument> {
             source: { $ref: '#/components/schemas/BlockSource' },
             inputs: { type: 'array', items: { $ref: '#/components/schemas/InputDefinition' } },
             outputs: { type: 'array', items: { $ref: '#/components/schemas/OutputDefinition' } },
+            transform: { $ref: '#/components/schemas/TransformTemplate' },
+            condition: { type: 'object', properties: { expression: { type: 'string' } } },
+            aggregate: {
+              type: 'object',
+              properties: { mode: { type: 'string', enum: ['merge', 'concat', 'join', 'groupBy', 'reduce'] } },
+            },
             category: { type: 'string' },
             tags: { type: 'array', items: { type: 'string' } },
           },
@@ -0,0 +1,278 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase, COLLECTIONS } from '../../config/database';
+import { authenticate } from '../../middleware/auth';
+import { jsonResponse, errorResponse, paginatedResponse } from '../../utils/response';
+import { getNextRuns, getScheduleNextRuns, validateCronSchedule, validateScheduleInputs } from '../../engine';
+import type {
+  Flow,
+  Schedule,
+  ScheduleView,
+  CreateScheduleDto,
+  UpdateScheduleDto,
+} from '@codeblock-bff/shared';
+
+const DEFAULT_TIMEZONE = 'UTC';
+// Upcoming runs included with a single schedule, and the most a preview returns
+const NEXT_RUNS_COUNT = 5;
+const MAX_PREVIEW_COUNT = 50;
+
+export async function handleSchedulesApi(request: Request, path: string): Promise<Response> {
+  const url = new URL(request.url);
+  const method = request.method;
+
+  // Schedules run flows on their owner's behalf, so only authenticated users manage them
+  const authResult = await authenticate(request);
+  if (!authResult.authenticated) {
+    return errorResponse(authResult.error, authResult.status);
+  }
+
+  // Extract schedule ID from path if present
+  const pathParts = path.split('/').filter(Boolean);
+  const scheduleId = pathParts.length > 2 ? pathParts[2] : null;
+
+  // POST /api/schedules/preview
+  if (scheduleId === 'preview' && method === 'POST') {
+    return previewSchedule(request);
+  }
+
+  switch (method) {
+    case 'GET':
+      if (scheduleId) {
+        return getSchedule(scheduleId);
+      }
+      return listSchedules(url);
+
+    case 'POST':
+      return createSchedule(request, authResult.user.sub);
+
+    case 'PUT':
+      if (!scheduleId) {
+        return errorResponse('Schedule ID required', 400);
+      }
+      return updateSchedule(scheduleId, request);
+
+    case 'DELETE':
+      if (!scheduleId) {
+        return errorResponse('Schedule ID required', 400);
+      }
+      return deleteSchedule(scheduleId);
+
+    default:
+      return errorResponse('Method not allowed', 405);
+  }
+}
+
+function toView(schedule: Schedule, count: number): ScheduleView {
+  return { ...schedule, nextRuns: getScheduleNextRuns(schedule, count) };
+}
+
+// Schedules may only target published flows, with every required input provided
+async function validateScheduleTarget(flowId: string, inputs: unknown): Promise<string | null> {
+  if (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs)) {
+    return 'inputs must be an object';
+  }
+
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(flowId);
+  } catch {
+    return 'Invalid flow ID';
+  }
+
+  const flow = await getDatabase().collection(COLLECTIONS.FLOWS).findOne({ _id: objectId }) as Flow | null;
+  if (!flow) {
+    return 'Flow not found';
+  }
+  if (flow.status !== 'published') {
+    return 'Only published flows can be scheduled';
+  }
+  return validateScheduleInputs(flow, inputs as Record<string, unknown>);
+}
+
+async function listSchedules(url: URL): Promise<Response> {
+  const db = getDatabase();
+  const collection = db.collection<Schedule>(COLLECTIONS.SCHEDULES);
+
+  // Pagination
+  const page = parseInt(url.searchParams.get('page') || '1', 10);
+  const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+  const skip = (page - 1) * limit;
+
+  const filter: Record<string, unknown> = {};
+  const flowId = url.searchParams.get('flowId');
+  if (flowId) filter.flowId = flowId;
+
+  const [schedules, total] = await Promise.all([
+    collection
+      .find(filter)
+      .sort({ name: 1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray(),
+    collection.countDocuments(filter),
+  ]);
+
+  return paginatedResponse(schedules.map(schedule => toView(schedule, 1)), total, page, limit);
+}
+
+async function getSchedule(scheduleId: string): Promise<Response> {
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(scheduleId);
+  } catch {
+    return errorResponse('Invalid schedule ID', 400);
+  }
+
+  const db = getDatabase();
+  const schedule = await db.collection(COLLECTIONS.SCHEDULES).findOne({ _id: objectId }) as Schedule | null;
+
+  if (!schedule) {
+    return errorResponse('Schedule not found', 404);
+  }
+
+  return jsonResponse(toView(schedule, NEXT_RUNS_COUNT));
+}
+
+async function createSchedule(request: Request, userId: string): Promise<Response> {
+  let body: CreateScheduleDto;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!body.flowId || !body.name || !body.cron) {
+    return errorResponse('Missing required fields: flowId, name, cron', 400);
+  }
+
+  const timezone = body.timezone ?? DEFAULT_TIMEZONE;
+  const inputs = body.inputs ?? {};
+  const validationError = validateCronSchedule(body.cron, timezone)
+    || await validateScheduleTarget(body.flowId, inputs);
+  if (validationError) {
+    return errorResponse(validationError, 400);
+  }
+
+  const schedule: Omit<Schedule, '_id'> = {
+    flowId: body.flowId,
+    name: body.name,
+    cron: body.cron.trim(),
+    timezone,
+    inputs,
+    enabled: body.enabled ?? true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: userId,
+  };
+
+  const db = getDatabase();
+  const result = await db.collection(COLLECTIONS.SCHEDULES).insertOne(schedule);
+
+  return jsonResponse(toView({ ...schedule, _id: String(result.insertedId) }, NEXT_RUNS_COUNT), 201);
+}
+
+async function updateSchedule(scheduleId: string, request: Request): Promise<Response> {
+  let body: UpdateScheduleDto;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(scheduleId);
+  } catch {
+    return errorResponse('Invalid schedule ID', 400);
+  }
+
+  // Checked before trimming; the rest is validated once merged with the current schedule
+  if (body.cron !== undefined && typeof body.cron !== 'string') {
+    return errorResponse('cron must be a cron expression', 400);
+  }
+
+  const db = getDatabase();
+  const collection = db.collection(COLLECTIONS.SCHEDULES);
+
+  const current = await collection.findOne({ _id: objectId }) as Schedule | null;
+  if (!current) {
+    return errorResponse('Schedule not found', 404);
+  }
+
+  const updateData: Partial<Schedule> = {
+    name: body.name ?? current.name,
+    cron: body.cron?.trim() ?? current.cron,
+    timezone: body.timezone ?? current.timezone,
+    inputs: body.inputs ?? current.inputs,
+    enabled: body.enabled ?? current.enabled,
+    updatedAt: new Date(),
+  };
+
+  // Re-enabled schedules start from now rather than catching up on runs missed while disabled
+  if (updateData.enabled && !current.enabled) {
+    updateData.lastRunAt = new Date();
+  }
+
+  const validationError = validateCronSchedule(updateData.cron, updateData.timezone)
+    || await validateScheduleTarget(current.flowId, updateData.inputs);
+  if (validationError) {
+    return errorResponse(validationError, 400);
+  }
+
+  const result = await collection.findOneAndUpdate(
+    { _id: objectId },
+    { $set: updateData },
+    { returnDocument: 'after' }
+  ) as Schedule | null;
+
+  if (!result) {
+    return errorResponse('Schedule not found', 404);
+  }
+
+  return jsonResponse(toView(result, NEXT_RUNS_COUNT));
+}
+
+async function deleteSchedule(scheduleId: string): Promise<Response> {
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(scheduleId);
+  } catch {
+    return errorResponse('Invalid schedule ID', 400);
+  }
+
+  const db = getDatabase();
+  const result = await db.collection(COLLECTIONS.SCHEDULES).deleteOne({ _id: objectId });
+
+  if (result.deletedCount === 0) {
+    return errorResponse('Schedule not found', 404);
+  }
+
+  return jsonResponse({ deleted: true });
+}
+
+// Run times an expression would produce, without saving a schedule
+async function previewSchedule(request: Request): Promise<Response> {
+  let body: { cron?: string; timezone?: string; count?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const timezone = body.timezone ?? DEFAULT_TIMEZONE;
+  const validationError = validateCronSchedule(body.cron, timezone);
+  if (validationError) {
+    return errorResponse(validationError, 400);
+  }
+
+  const count = body.count ?? NEXT_RUNS_COUNT;
+  if (!Number.isInteger(count) || count <= 0 || count > MAX_PREVIEW_COUNT) {
+    return errorResponse(`count must be an integer between 1 and ${MAX_PREVIEW_COUNT}`, 400);
+  }
+
+  return jsonResponse({
+    cron: body.cron,
+    timezone,
+    nextRuns: getNextRuns(body.cron as string, timezone, new Date(), count),
+  });
+}
@@ -158,6 +158,8 @@ interface OperationObject {
     required?: boolean;
     schema?: object;
     description?: string;
+    style?: string;
+    explode?: boolean;
   }>;
   requestBody?: {
     content?: Record<string, { schema?: object }>;
@@ -181,9 +183,12 @@ interface ExtractedOperation {
     required: boolean;
     type: string;
     description?: string;
+    style?: string;
+    explode?: boolean;
   }>;
   requestBody?: {
     required: boolean;
+    contentType: string;
     schema?: object;
   };
   responses: Array<{
@@ -217,6 +222,8 @@ function extractOperations(spec: OpenApiSpec, sourceUrl: string): ExtractedOpera
             required: p.required || false,
             type: getSchemaType(p.schema),
             description: p.description,
+            style: p.style,
+            explode: p.explode,
           })),
           responses: Object.entries(op.responses || {}).map(([code, res]) => ({
             statusCode: code,
@@ -226,9 +233,11 @@ function extractOperations(spec: OpenApiSpec, sourceUrl: string): ExtractedOpera
         };
 
         if (op.requestBody) {
+          const contentType = getRequestContentType(op.requestBody.content);
           extractedOp.requestBody = {
             required: op.requestBody.required || false,
-            schema: op.requestBody.content?.['application/json']?.schema,
+            contentType,
+            schema: op.requestBody.content?.[contentType]?.schema,
           };
         }
 
@@ -240,6 +249,12 @@ function extractOperations(spec: OpenApiSpec, sourceUrl: string): ExtractedOpera
   return operations;
 }
 
+// Prefers JSON, then the other body encodings blocks can send
+function getRequestContentType(content?: Record<string, { schema?: object }>): string {
+  const supported = ['application/json', 'application/x-www-form-urlencoded', 'multipart/form-data'];
+  return supported.find(type => content?.[type]) || 'application/json';
+}
+
 function getSchemaType(schema?: object): string {
   if (!schema) return 'string';
   const s = schema as Record<string, unknown>;
@@ -41,4 +41,6 @@ export const COLLECTIONS = {
   BLOCKS: 'blocks',
   FLOWS: 'flows',
   EXECUTION_LOGS: 'execution_logs',
+  CREDENTIALS: 'credentials',
+  SCHEDULES: 'schedules',
 } as const;
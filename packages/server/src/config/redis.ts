@@ -56,6 +56,43 @@ export class CacheService {
     }
   }
 
+  // Counter whose TTL starts with the first increment. Counted and expired in
+  // one step, so a counter is never left without a TTL.
+  async increment(key: string, ttl: number): Promise<number> {
+    return await this.eval<number>(
+      "local count = redis.call('INCR', KEYS[1]) if count == 1 then redis.call('EXPIRE', KEYS[1], ARGV[1]) end return count",
+      [key],
+      [ttl]
+    );
+  }
+
+  // Runs a Lua script atomically on the server
+  async eval<T>(script: string, keys: string[], args: Array<string | number>): Promise<T> {
+    return await this.redis.send('EVAL', [script, String(keys.length), ...keys, ...args.map(String)]) as T;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return this.redis.keys(pattern);
+  }
+
+  // Sets the key only if it does not exist; true when this caller now holds it.
+  // `owner` identifies the holder for renewLock.
+  async acquireLock(key: string, ttl: number, owner = '1'): Promise<boolean> {
+    const result = await this.redis.send('SET', [key, owner, 'NX', 'EX', String(ttl)]);
+    return result === 'OK';
+  }
+
+  // Extends a lock still held by `owner`; false when it expired or someone else
+  // holds it. Compared and extended in one step so another holder's lease is never extended.
+  async renewLock(key: string, ttl: number, owner: string): Promise<boolean> {
+    const renewed = await this.eval<number>(
+      "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('EXPIRE', KEYS[1], ARGV[2]) end return 0",
+      [key],
+      [owner, ttl]
+    );
+    return renewed === 1;
+  }
+
   // Specific cache methods
   async getBlock(blockId: string) {
     return this.get(`block:${blockId}`);
@@ -91,10 +128,19 @@ export class CacheService {
     return this.set(`openapi:${hash}`, spec, 600); // 10 min
   }
 
+  async getFlowResult(flowId: string, key: string) {
+    return this.get(`flowresult:${flowId}:${key}`);
+  }
+
+  async setFlowResult(flowId: string, key: string, result: unknown, ttl: number) {
+    return this.set(`flowresult:${flowId}:${key}`, result, ttl);
+  }
+
   async invalidateFlow(flowId: string, slug: string) {
     await Promise.all([
       this.del(`flow:${flowId}`),
       this.del(`flow:slug:${slug}`),
+      this.delPattern(`flowresult:${flowId}:*`),
     ]);
   }
 
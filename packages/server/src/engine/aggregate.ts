@@ -0,0 +1,193 @@
+import type { AggregateDefinition, AggregateReduceOperation } from '@codeblock-bff/shared';
+import { isPlainObject, getPath, setOwn, assignOwn } from './path';
+
+const AGGREGATE_MODES: AggregateDefinition['mode'][] = ['merge', 'concat', 'join', 'groupBy', 'reduce'];
+const REDUCE_OPERATIONS: AggregateReduceOperation[] = ['sum', 'avg', 'min', 'max', 'count'];
+
+type Row = Record<string, unknown>;
+
+function selectInputs(inputs: Record<string, unknown>, names?: string[]): unknown[] {
+  return names ? names.map(name => inputs[name]) : Object.values(inputs);
+}
+
+function asArray(inputs: Record<string, unknown>, name: string): unknown[] {
+  const value = inputs[name];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Input "${name}" must be an array`);
+  }
+  return value;
+}
+
+function deepMerge(target: Row, source: Row): Row {
+  for (const [key, value] of Object.entries(source)) {
+    const current = Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+    setOwn(target, key, isPlainObject(value) && isPlainObject(current)
+      ? deepMerge({ ...current }, value)
+      : value);
+  }
+  return target;
+}
+
+function groupKey(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value ?? null);
+}
+
+function groupBy(items: unknown[], field: string): Record<string, unknown[]> {
+  // Null prototype so group keys like `constructor` stay plain keys
+  const groups: Record<string, unknown[]> = Object.create(null);
+  for (const item of items) {
+    const key = groupKey(getPath(item, field));
+    (groups[key] ??= []).push(item);
+  }
+  return groups;
+}
+
+function reduce(items: unknown[], operation: AggregateReduceOperation, field?: string): number | null {
+  if (operation === 'count') return items.length;
+
+  // Missing and null values are skipped alike; Number(null) would count them as 0
+  const values = items
+    .map(item => (field ? getPath(item, field) : item))
+    .filter(value => value !== undefined && value !== null)
+    .map(value => (typeof value === 'number' ? value : Number(value)))
+    .filter(value => !Number.isNaN(value));
+
+  if (values.length === 0) return operation === 'sum' ? 0 : null;
+
+  switch (operation) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    // Not Math.min(...values), which overflows the call stack on large arrays
+    case 'min':
+      return values.reduce((lowest, value) => Math.min(lowest, value));
+    case 'max':
+      return values.reduce((highest, value) => Math.max(highest, value));
+  }
+}
+
+function join(
+  inputs: Record<string, unknown>,
+  definition: Extract<AggregateDefinition, { mode: 'join' }>
+): Row[] {
+  const left = asArray(inputs, definition.left);
+  const right = asArray(inputs, definition.right);
+  const rightOn = definition.rightOn || definition.on;
+
+  // Index the right side once so the join is linear
+  const index = new Map<string, Row[]>();
+  for (const item of right) {
+    if (!isPlainObject(item)) continue;
+    const key = groupKey(getPath(item, rightOn));
+    const bucket = index.get(key);
+    if (bucket) bucket.push(item);
+    else index.set(key, [item]);
+  }
+
+  const rows: Row[] = [];
+  for (const item of left) {
+    if (!isPlainObject(item)) continue;
+    const matches = index.get(groupKey(getPath(item, definition.on))) || [];
+
+    if (matches.length === 0 && definition.type !== 'left') continue;
+
+    if (definition.as) {
+      rows.push({ ...item, [definition.as]: matches });
+    } else if (matches.length === 0) {
+      rows.push({ ...item });
+    } else {
+      for (const match of matches) {
+        rows.push({ ...item, ...match });
+      }
+    }
+  }
+
+  return rows;
+}
+
+export function applyAggregate(
+  definition: AggregateDefinition | undefined,
+  inputs: Record<string, unknown>
+): unknown {
+  if (!definition) {
+    throw new Error('Aggregate block has no aggregate definition');
+  }
+
+  switch (definition.mode) {
+    case 'merge': {
+      const objects = selectInputs(inputs, definition.inputs).filter(isPlainObject);
+      return objects.reduce<Row>(
+        (merged, value) => (definition.deep ? deepMerge(merged, value) : assignOwn(merged, value)),
+        {}
+      );
+    }
+
+    case 'concat':
+      return selectInputs(inputs, definition.inputs).flatMap(value => {
+        if (value === undefined || value === null) return [];
+        return Array.isArray(value) ? value : [value];
+      });
+
+    case 'join':
+      return join(inputs, definition);
+
+    case 'groupBy':
+      return groupBy(asArray(inputs, definition.input), definition.by);
+
+    case 'reduce': {
+      const items = asArray(inputs, definition.input);
+      if (!definition.groupBy) {
+        return reduce(items, definition.operation, definition.field);
+      }
+      const result: Record<string, number | null> = Object.create(null);
+      for (const [key, group] of Object.entries(groupBy(items, definition.groupBy))) {
+        result[key] = reduce(group, definition.operation, definition.field);
+      }
+      return result;
+    }
+  }
+}
+
+// Returns a list of human readable problems; empty when the definition is valid
+export function validateAggregateDefinition(definition: unknown): string[] {
+  if (!isPlainObject(definition)) {
+    return ['aggregate must be an object'];
+  }
+
+  const aggregate = definition as AggregateDefinition;
+  if (!AGGREGATE_MODES.includes(aggregate.mode)) {
+    return [`aggregate.mode must be one of: ${AGGREGATE_MODES.join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  switch (aggregate.mode) {
+    case 'merge':
+    case 'concat':
+      if (aggregate.inputs !== undefined && !Array.isArray(aggregate.inputs)) {
+        errors.push('aggregate.inputs must be an array');
+      }
+      break;
+    case 'join':
+      if (!aggregate.left) errors.push('aggregate.left is required');
+      if (!aggregate.right) errors.push('aggregate.right is required');
+      if (!aggregate.on) errors.push('aggregate.on is required');
+      if (aggregate.type && !['inner', 'left'].includes(aggregate.type)) {
+        errors.push('aggregate.type must be one of: inner, left');
+      }
+      break;
+    case 'groupBy':
+      if (!aggregate.input) errors.push('aggregate.input is required');
+      if (!aggregate.by) errors.push('aggregate.by is required');
+      break;
+    case 'reduce':
+      if (!aggregate.input) errors.push('aggregate.input is required');
+      if (!REDUCE_OPERATIONS.includes(aggregate.operation)) {
+        errors.push(`aggregate.operation must be one of: ${REDUCE_OPERATIONS.join(', ')}`);
+      }
+      break;
+  }
+
+  return errors;
+}
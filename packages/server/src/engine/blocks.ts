@@ -0,0 +1,28 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase, COLLECTIONS } from '../config/database';
+import { cacheService } from '../config/redis';
+import type { Block } from '@codeblock-bff/shared';
+
+// Loads a block definition (cache first). Returns null for unknown or malformed IDs.
+export async function getBlockDefinition(blockId: string): Promise<Block | null> {
+  let block = await cacheService.getBlock(blockId) as Block | null;
+
+  if (!block) {
+    let objectId: ObjectId;
+    try {
+      objectId = new ObjectId(blockId);
+    } catch {
+      return null;
+    }
+
+    const db = getDatabase();
+    const collection = db.collection(COLLECTIONS.BLOCKS);
+    block = await collection.findOne({ _id: objectId }) as Block | null;
+
+    if (block) {
+      await cacheService.setBlock(blockId, block);
+    }
+  }
+
+  return block;
+}
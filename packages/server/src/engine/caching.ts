@@ -0,0 +1,194 @@
+import { createHash } from 'node:crypto';
+import { cacheService } from '../config/redis';
+import { isPlainObject } from './path';
+import type { BlockCacheConfig, BlockExecutionResult, FlowBlock, FlowCacheConfig, FlowConfig } from '@codeblock-bff/shared';
+
+// Caller headers that skip cached responses; the fresh response is still stored
+export const CACHE_BYPASS_HEADER = 'x-cache-bypass';
+const NO_CACHE_DIRECTIVES = ['no-cache', 'no-store', 'max-age=0'];
+
+// Request headers whose values make a response specific to one caller
+const CALLER_CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+// Only one caller refreshes a stale entry; the lock expires in case it never finishes
+const REFRESH_LOCK_SECONDS = 30;
+
+interface CachedResponse {
+  storedAt: number;
+  result: Pick<BlockExecutionResult, 'status' | 'outputs' | 'request' | 'rawResponse'>;
+}
+
+// JSON with object keys sorted, so equal values always serialize the same way
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashValue(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+function getKeyPrefix(blockId: string): string {
+  return `blockcache:${blockId}:`;
+}
+
+// `request` is the resolved upstream request; anything that changes the response belongs in it
+export function getBlockCacheKey(blockId: string, request: unknown): string {
+  return `${getKeyPrefix(blockId)}${hashValue(request)}`;
+}
+
+// Drops every cached response of a block definition
+export async function invalidateBlockCache(blockId: string): Promise<void> {
+  await cacheService.delPattern(`${getKeyPrefix(blockId)}*`);
+}
+
+// `headers` are the caller's request headers with lower-cased names
+export function isCacheBypassed(headers: Record<string, string> | undefined): boolean {
+  const bypass = headers?.[CACHE_BYPASS_HEADER]?.toLowerCase();
+  if (bypass === 'true' || bypass === '1') return true;
+
+  const directives = (headers?.['cache-control'] || '').toLowerCase().split(',').map(part => part.trim());
+  return directives.some(directive => NO_CACHE_DIRECTIVES.includes(directive));
+}
+
+async function store(key: string, config: BlockCacheConfig, result: BlockExecutionResult): Promise<void> {
+  if (result.status !== 'success') return;
+
+  const entry: CachedResponse = {
+    storedAt: Date.now(),
+    result: { status: result.status, outputs: result.outputs, request: result.request, rawResponse: result.rawResponse },
+  };
+  await cacheService.set(key, entry, config.ttl + (config.staleWhileRevalidate || 0));
+}
+
+// Refreshes a stale entry unless another caller is already doing so
+async function revalidate(
+  key: string,
+  config: BlockCacheConfig,
+  refresh: () => Promise<BlockExecutionResult>
+): Promise<void> {
+  if (!await cacheService.acquireLock(`${key}:refresh`, REFRESH_LOCK_SECONDS)) return;
+
+  try {
+    await store(key, config, await refresh());
+  } finally {
+    await cacheService.del(`${key}:refresh`);
+  }
+}
+
+// Answers from the cache while the entry is fresh, and while it is stale within
+// staleWhileRevalidate (refreshing it in the background). Otherwise `execute`
+// calls the upstream and a successful result is stored. `refresh` performs the
+// same call without the flow's deadline, which may have passed by then.
+export async function executeWithCache(
+  key: string,
+  config: BlockCacheConfig,
+  execute: () => Promise<BlockExecutionResult>,
+  refresh: () => Promise<BlockExecutionResult>,
+  bypass = false
+): Promise<BlockExecutionResult> {
+  if (!bypass) {
+    const cached = await cacheService.get<CachedResponse>(key);
+    if (cached) {
+      const ageSeconds = (Date.now() - cached.storedAt) / 1000;
+      if (ageSeconds < config.ttl) {
+        return { ...cached.result, cache: 'hit' };
+      }
+      if (ageSeconds < config.ttl + (config.staleWhileRevalidate || 0)) {
+        revalidate(key, config, refresh).catch(error => {
+          console.error(`Failed to refresh cached response ${key}:`, error);
+        });
+        return { ...cached.result, cache: 'stale' };
+      }
+    }
+  }
+
+  const result = await execute();
+  await store(key, config, result).catch(error => {
+    console.error(`Failed to cache response ${key}:`, error);
+  });
+  return { ...result, cache: bypass ? 'bypass' : 'miss' };
+}
+
+// Weak validator of a JSON payload; equal values give equal tags regardless of key order
+export function computeETag(value: unknown): string {
+  return `W/"${hashValue(value).slice(0, 32)}"`;
+}
+
+// If-None-Match uses weak comparison (RFC 9110 §13.1.2)
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some(tag => opaque(tag) === opaque(etag));
+}
+
+// Responses that vary on caller credentials are never stored by shared caches
+export function buildCacheControl(config: FlowCacheConfig, varyHeaders: string[]): string {
+  const isPrivate = config.private || varyHeaders.some(name => CALLER_CREDENTIAL_HEADERS.includes(name));
+  return [
+    isPrivate ? 'private' : 'public',
+    config.maxAge ? `max-age=${config.maxAge}` : 'no-cache',
+  ].join(', ');
+}
+
+// Returns a message describing the first problem with a flow cache config, or null
+export function validateFlowCacheConfig(config: FlowCacheConfig): string | null {
+  if (!isPlainObject(config)) return 'must be an object';
+
+  const { maxAge, serverTtl, vary = [] } = config as FlowCacheConfig;
+  if (maxAge !== undefined && (!Number.isInteger(maxAge) || maxAge < 0)) {
+    return 'maxAge must be a non-negative number of seconds';
+  }
+  if (serverTtl !== undefined && (!Number.isInteger(serverTtl) || serverTtl <= 0)) {
+    return 'serverTtl must be a positive number of seconds';
+  }
+  if (!Array.isArray(vary) || vary.some(name => typeof name !== 'string' || name === '')) {
+    return 'vary must be a list of header names';
+  }
+  return null;
+}
+
+// Returns a message describing the first problem with a block cache config, or null
+export function validateBlockCacheConfig(config: BlockCacheConfig): string | null {
+  if (!isPlainObject(config)) return 'must be an object';
+
+  const { ttl, staleWhileRevalidate } = config as BlockCacheConfig;
+  if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl <= 0) {
+    return 'ttl must be a positive number of seconds';
+  }
+  if (staleWhileRevalidate !== undefined && (!Number.isInteger(staleWhileRevalidate) || staleWhileRevalidate < 0)) {
+    return 'staleWhileRevalidate must be a non-negative number of seconds';
+  }
+  return null;
+}
+
+// Checks the flow's cache config and those of its blocks, including loop bodies
+export function validateFlowCaching(config: FlowConfig | undefined, blocks: FlowBlock[]): string | null {
+  if (config?.cache) {
+    const error = validateFlowCacheConfig(config.cache);
+    if (error) return `config.cache: ${error}`;
+  }
+
+  const check = (flowBlocks: FlowBlock[]): string | null => {
+    for (const flowBlock of flowBlocks) {
+      const cache = flowBlock.config?.cache;
+      const error = cache ? validateBlockCacheConfig(cache) : null;
+      if (error) return `blocks.${flowBlock.id}.config.cache: ${error}`;
+      const nested = flowBlock.loop?.blocks ? check(flowBlock.loop.blocks) : null;
+      if (nested) return nested;
+    }
+    return null;
+  };
+  return check(blocks);
+}
@@ -0,0 +1,201 @@
+import { cacheService } from '../config/redis';
+import { isPlainObject } from './path';
+import type { BlockExecutionResult, CircuitBreakerConfig, CircuitBreakerState, FlowBlock } from '@codeblock-bff/shared';
+
+const DEFAULT_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+const DEFAULT_WINDOW_SECONDS = parseInt(process.env.CIRCUIT_WINDOW_SECONDS || '60', 10);
+const DEFAULT_OPEN_SECONDS = parseInt(process.env.CIRCUIT_OPEN_SECONDS || '30', 10);
+
+// A probe that never reports back frees the half-open slot after this long
+const PROBE_LOCK_SECONDS = 60;
+// Tripped circuits nobody calls any more are forgotten eventually
+const STATE_TTL_SECONDS = 86400;
+
+// Error codes set by the API call executor for failures that never got a response
+const FAILURE_ERROR_CODES = ['NETWORK_ERROR', 'TIMEOUT'];
+
+export type ResolvedCircuitBreaker = Required<Omit<CircuitBreakerConfig, 'enabled'>>;
+
+interface TrippedCircuit {
+  openedAt: number;
+  openUntil: number;
+  lastError?: string;
+}
+
+function stateKey(host: string): string {
+  return `circuit:${host}:state`;
+}
+
+function failuresKey(host: string): string {
+  return `circuit:${host}:failures`;
+}
+
+function probeKey(host: string): string {
+  return `circuit:${host}:probe`;
+}
+
+// Server-wide defaults, overridden by the block's settings. Null when disabled.
+export function resolveCircuitBreaker(config: CircuitBreakerConfig | undefined): ResolvedCircuitBreaker | null {
+  if (config?.enabled === false) return null;
+
+  return {
+    failureThreshold: config?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+    windowSeconds: config?.windowSeconds ?? DEFAULT_WINDOW_SECONDS,
+    openSeconds: config?.openSeconds ?? DEFAULT_OPEN_SECONDS,
+  };
+}
+
+// Breakers are keyed by host (with port), so every block calling a service shares one
+export function getCircuitHost(url: string): string | null {
+  try {
+    return new URL(url).host || null;
+  } catch {
+    return null;
+  }
+}
+
+// Upstream errors and unreachable hosts count; client errors and cancellations do not
+export function isCircuitFailure(result: BlockExecutionResult): boolean {
+  if (result.rawResponse) return result.rawResponse.statusCode >= 500;
+  return FAILURE_ERROR_CODES.includes(result.error?.code || '');
+}
+
+export async function getCircuitState(host: string): Promise<CircuitBreakerState> {
+  const [tripped, failures] = await Promise.all([
+    cacheService.get<TrippedCircuit>(stateKey(host)),
+    cacheService.get<number>(failuresKey(host)),
+  ]);
+
+  if (!tripped) {
+    return { host, state: 'closed', failures: failures || 0 };
+  }
+
+  return {
+    host,
+    state: Date.now() < tripped.openUntil ? 'open' : 'half_open',
+    failures: failures || 0,
+    openedAt: new Date(tripped.openedAt).toISOString(),
+    openUntil: new Date(tripped.openUntil).toISOString(),
+    lastError: tripped.lastError,
+  };
+}
+
+// Hosts with a tripped circuit or recent failures
+export async function listCircuitStates(): Promise<CircuitBreakerState[]> {
+  const keys = await cacheService.keys('circuit:*');
+  const hosts = new Set(
+    keys
+      .filter(key => key.endsWith(':state') || key.endsWith(':failures'))
+      .map(key => key.slice('circuit:'.length, key.lastIndexOf(':')))
+  );
+  return Promise.all([...hosts].sort().map(host => getCircuitState(host)));
+}
+
+export async function resetCircuit(host: string): Promise<void> {
+  await Promise.all([
+    cacheService.del(stateKey(host)),
+    cacheService.del(failuresKey(host)),
+    cacheService.del(probeKey(host)),
+  ]);
+}
+
+async function openCircuit(host: string, config: ResolvedCircuitBreaker, result: BlockExecutionResult): Promise<void> {
+  const now = Date.now();
+  const tripped: TrippedCircuit = {
+    openedAt: now,
+    openUntil: now + config.openSeconds * 1000,
+    lastError: result.error?.message,
+  };
+  await cacheService.set(stateKey(host), tripped, STATE_TTL_SECONDS);
+  await Promise.all([cacheService.del(failuresKey(host)), cacheService.del(probeKey(host))]);
+}
+
+async function recordResult(
+  host: string,
+  config: ResolvedCircuitBreaker,
+  result: BlockExecutionResult,
+  probe: boolean
+): Promise<void> {
+  if (result.status === 'cancelled') {
+    if (probe) await cacheService.del(probeKey(host));
+    return;
+  }
+
+  if (!isCircuitFailure(result)) {
+    // A successful probe closes the circuit
+    if (probe) await resetCircuit(host);
+    return;
+  }
+
+  if (probe) {
+    await openCircuit(host, config, result);
+    return;
+  }
+
+  const failures = await cacheService.increment(failuresKey(host), config.windowSeconds);
+  if (failures >= config.failureThreshold) {
+    await openCircuit(host, config, result);
+  }
+}
+
+// Runs an upstream call through the host's breaker. Open circuits fail fast
+// with CIRCUIT_OPEN; half-open circuits let one probe call through at a time.
+// Breaker state that cannot be read or written never blocks the call itself.
+export async function executeWithCircuitBreaker(
+  url: string,
+  config: ResolvedCircuitBreaker | null,
+  execute: () => Promise<BlockExecutionResult>
+): Promise<BlockExecutionResult> {
+  const host = getCircuitHost(url);
+  if (!config || !host) return execute();
+
+  let probe = false;
+  try {
+    const tripped = await cacheService.get<TrippedCircuit>(stateKey(host));
+    if (tripped) {
+      probe = Date.now() >= tripped.openUntil && await cacheService.acquireLock(probeKey(host), PROBE_LOCK_SECONDS);
+      if (!probe) {
+        return {
+          status: 'failure',
+          error: { message: `Circuit for ${host} is open; the call was not attempted`, code: 'CIRCUIT_OPEN' },
+        };
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to read circuit state for ${host}:`, error);
+  }
+
+  const result = await execute();
+  await recordResult(host, config, result, probe).catch(error => {
+    console.error(`Failed to record circuit result for ${host}:`, error);
+  });
+  return result;
+}
+
+// Returns a message describing the first problem with breaker settings, or null
+export function validateCircuitBreakerConfig(config: CircuitBreakerConfig): string | null {
+  if (!isPlainObject(config)) return 'must be an object';
+
+  const { enabled, failureThreshold, windowSeconds, openSeconds } = config as CircuitBreakerConfig;
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  for (const [name, value] of Object.entries({ failureThreshold, windowSeconds, openSeconds })) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      return `${name} must be a positive integer`;
+    }
+  }
+  return null;
+}
+
+// Checks the breaker settings of every block, including loop bodies
+export function validateFlowCircuitBreakers(blocks: FlowBlock[]): string | null {
+  for (const flowBlock of blocks) {
+    const config = flowBlock.config?.circuitBreaker;
+    const error = config ? validateCircuitBreakerConfig(config) : null;
+    if (error) return `blocks.${flowBlock.id}.config.circuitBreaker: ${error}`;
+    const nested = flowBlock.loop?.blocks ? validateFlowCircuitBreakers(flowBlock.loop.blocks) : null;
+    if (nested) return nested;
+  }
+  return null;
+}
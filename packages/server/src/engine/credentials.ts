@@ -0,0 +1,156 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { ObjectId } from 'mongodb';
+import { getDatabase, COLLECTIONS } from '../config/database';
+import { cacheService } from '../config/redis';
+import type { Credential, CredentialSecret } from '@codeblock-bff/shared';
+
+// Auth material added to an upstream request
+export interface CredentialAuth {
+  headers: Record<string, string>;
+  query: Array<[string, string]>;
+}
+
+const FORMAT_VERSION = 'v1';
+const TOKEN_TIMEOUT_MS = 10000;
+// Tokens are refreshed this long before they expire
+const TOKEN_EXPIRY_MARGIN_SECONDS = 30;
+const DEFAULT_TOKEN_TTL_SECONDS = 300;
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.CREDENTIALS_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_KEY is not set; credentials cannot be encrypted or used');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+// AES-256-GCM, stored as `v1.<iv>.<auth tag>.<ciphertext>` in base64
+export function encryptSecret(value: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join('.');
+}
+
+export function decryptSecret<T>(payload: string): T {
+  const [version, iv, tag, data] = payload.split('.');
+  if (version !== FORMAT_VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Unsupported encrypted secret format');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  try {
+    const text = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+    return JSON.parse(text) as T;
+  } catch {
+    // Wrong key or tampered data; the details are not useful to callers
+    throw new Error('Secret could not be decrypted');
+  }
+}
+
+// Loads a credential from the database. Credentials are not cached since
+// they must reflect updates and deletions immediately.
+export async function getCredential(credentialId: string): Promise<Credential | null> {
+  let objectId: ObjectId;
+  try {
+    objectId = new ObjectId(credentialId);
+  } catch {
+    return null;
+  }
+
+  const db = getDatabase();
+  const collection = db.collection(COLLECTIONS.CREDENTIALS);
+  return await collection.findOne({ _id: objectId }) as Credential | null;
+}
+
+function getTokenCacheKey(credentialId: string): string {
+  return `oauth2:token:${credentialId}`;
+}
+
+// Drops a cached OAuth2 token, e.g. after the credential changed or the upstream rejected it
+export async function invalidateCredentialToken(credentialId: string): Promise<void> {
+  await cacheService.del(getTokenCacheKey(credentialId));
+}
+
+// Client-credentials grant (RFC 6749 §4.4). Tokens are cached encrypted until shortly before they expire.
+async function getOAuth2Token(credential: Credential, secret: CredentialSecret): Promise<string> {
+  const cacheKey = getTokenCacheKey(String(credential._id));
+  const cached = await cacheService.get<string>(cacheKey);
+  if (cached) {
+    return decryptSecret<string>(cached);
+  }
+
+  const { tokenUrl, scope, audience } = credential.settings;
+  if (!tokenUrl || !secret.clientId || !secret.clientSecret) {
+    throw new Error(`Credential "${credential.name}" is missing its token URL, client ID or client secret`);
+  }
+
+  const body = new URLSearchParams({ grant_type: 'client_credentials' });
+  if (scope) body.set('scope', scope);
+  if (audience) body.set('audience', audience);
+
+  const clientAuth = Buffer.from(`${encodeURIComponent(secret.clientId)}:${encodeURIComponent(secret.clientSecret)}`).toString('base64');
+  const response = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+      'Authorization': `Basic ${clientAuth}`,
+    },
+    body,
+    signal: AbortSignal.timeout(TOKEN_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OAuth2 token request for credential "${credential.name}" failed with status ${response.status}`);
+  }
+
+  const token = await response.json().catch(() => null) as { access_token?: string; expires_in?: number } | null;
+  if (!token?.access_token) {
+    throw new Error(`OAuth2 token response for credential "${credential.name}" has no access_token`);
+  }
+
+  const ttl = (token.expires_in ?? DEFAULT_TOKEN_TTL_SECONDS) - TOKEN_EXPIRY_MARGIN_SECONDS;
+  if (ttl > 0) {
+    await cacheService.set(cacheKey, encryptSecret(token.access_token), ttl);
+  }
+  return token.access_token;
+}
+
+export async function resolveCredentialAuth(credential: Credential): Promise<CredentialAuth> {
+  const secret = decryptSecret<CredentialSecret>(credential.encryptedSecret);
+  const auth: CredentialAuth = { headers: {}, query: [] };
+
+  switch (credential.type) {
+    case 'api_key': {
+      const name = credential.settings.name || 'X-API-Key';
+      if (credential.settings.in === 'query') {
+        auth.query.push([name, secret.apiKey || '']);
+      } else {
+        auth.headers[name] = secret.apiKey || '';
+      }
+      break;
+    }
+    case 'basic':
+      auth.headers['Authorization'] = `Basic ${Buffer.from(`${secret.username || ''}:${secret.password || ''}`).toString('base64')}`;
+      break;
+    case 'bearer':
+      auth.headers['Authorization'] = `Bearer ${secret.token || ''}`;
+      break;
+    case 'oauth2_client_credentials':
+      auth.headers['Authorization'] = `Bearer ${await getOAuth2Token(credential, secret)}`;
+      break;
+  }
+
+  return auth;
+}
+
+// Auth material for a credential reference on a block
+export async function getCredentialAuth(credentialId: string): Promise<CredentialAuth> {
+  const credential = await getCredential(credentialId);
+  if (!credential) {
+    throw new Error(`Credential not found: ${credentialId}`);
+  }
+  return resolveCredentialAuth(credential);
+}
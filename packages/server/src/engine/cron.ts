@@ -0,0 +1,217 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week)
+// evaluated in an IANA timezone. Fields accept `*`, numbers, ranges, lists and
+// steps (e.g. `*/15`, `1-5`, `MON-FRI`); the @hourly-style macros are supported too.
+// As in Vixie cron, a day matches when either day field does if both are restricted.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStart?: number; // value of the first name
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesStart: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesStart: 0 }, // 7 is Sunday too
+];
+
+// Searching further than this means the expression can never match, e.g. `0 0 30 2 *`
+const MAX_SEARCH_STEPS = 100000;
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+  // Plain digits only; Number() would also take forms like `0x1` and `1e1`
+  const number = nameIndex >= 0 ? nameIndex + (spec.namesStart ?? 0) : /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(number) || number < spec.min || number > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${value}"`);
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? Number(stepText) : NaN;
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`Invalid ${spec.name} step "${stepText}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`Invalid ${spec.name} range "${range}"`);
+    } else {
+      start = parseValue(range, spec);
+      // `5/10` means every 10 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Like Vixie cron, `*/2` counts as unrestricted too
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock time in the zone, as a Date whose UTC fields hold the local values
+function toWallClock(date: Date, timeZone: string): Date {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute));
+}
+
+// Instant at which the zone's clock shows the wall-clock time. Repeated times
+// (clocks falling back) use the first occurrence; times skipped by clocks
+// springing forward move later by the length of the gap.
+function fromWallClock(wall: Date, timeZone: string): Date {
+  const target = wall.getTime();
+  const offsetAt = (instant: number) => toWallClock(new Date(instant), timeZone).getTime() - instant;
+
+  const first = target - offsetAt(target);
+  const second = target - offsetAt(first);
+  for (const instant of [Math.min(first, second), Math.max(first, second)]) {
+    if (toWallClock(new Date(instant), timeZone).getTime() === target) return new Date(instant);
+  }
+  return new Date(Math.max(first, second));
+}
+
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(wall.getUTCDay());
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+// Next matching wall-clock minute strictly after `wall`, or null if there is none
+function nextWallClock(schedule: CronSchedule, wall: Date): Date | null {
+  const time = new Date(wall.getTime());
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
+
+// The next `count` run times after `after`
+export function getNextRuns(expression: string, timeZone: string, after: Date, count = 1): Date[] {
+  const schedule = parseCron(expression);
+  const runs: Date[] = [];
+
+  let wall = toWallClock(after, timeZone);
+  while (runs.length < count) {
+    const next = nextWallClock(schedule, wall);
+    if (!next) break;
+    wall = next;
+
+    const run = fromWallClock(next, timeZone);
+    // Wall-clock times repeated when clocks fall back only run once
+    if (run > after && (runs.length === 0 || run > runs[runs.length - 1])) {
+      runs.push(run);
+    }
+  }
+  return runs;
+}
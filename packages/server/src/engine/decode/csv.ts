@@ -0,0 +1,85 @@
+export interface CsvOptions {
+  delimiter?: string;
+  header?: boolean; // first row holds column names, defaults to true
+}
+
+// RFC 4180 parsing: quoted fields may contain delimiters, newlines and doubled quotes
+function parseRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+      } else if (char === '"') {
+        quoted = false;
+        i++;
+      } else {
+        field += char;
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+      i++;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length;
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  // A trailing newline does not start another row
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// With a header row the result is an array of objects keyed by column name,
+// otherwise an array of string arrays
+export function parseCsv(text: string, options: CsvOptions = {}): unknown[] {
+  const rows = parseRows(text.replace(/^\uFEFF/, ''), options.delimiter || ',');
+  if (options.header === false) return rows;
+
+  const [columns, ...records] = rows;
+  if (!columns) return [];
+
+  return records.map(record => {
+    const item: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      // defineProperty so that a '__proto__' column stays a plain data property
+      Object.defineProperty(item, column, {
+        value: record[index] ?? '',
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    });
+    return item;
+  });
+}
@@ -0,0 +1,109 @@
+import type { ResponseDecoding, ResponseFormat } from '@codeblock-bff/shared';
+import { parseXml } from './xml';
+import { parseCsv } from './csv';
+
+export { parseXml } from './xml';
+export { parseCsv } from './csv';
+
+// Decoded form of a binary response. Passthrough content carries no data in the
+// object itself; its bytes stay in memory so the flow can return them as-is.
+export interface BinaryContent {
+  $binary: true;
+  contentType: string;
+  size: number;
+  encoding: 'base64' | 'passthrough';
+  data?: string;
+}
+
+const NO_CONTENT_STATUSES = [204, 205, 304];
+const TEXT_TYPES = ['application/javascript', 'application/x-www-form-urlencoded', 'application/yaml'];
+
+const passthroughBytes = new WeakMap<BinaryContent, Uint8Array<ArrayBuffer>>();
+
+function getMediaType(contentType: string | null): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+// Format implied by a Content-Type header, or null when there is none
+export function detectResponseFormat(contentType: string | null): ResponseFormat | null {
+  const type = getMediaType(contentType);
+  if (!type) return null;
+
+  if (type === 'application/json' || type === 'text/json' || type.endsWith('+json')) return 'json';
+  if (type === 'application/xml' || type === 'text/xml' || type.endsWith('+xml')) return 'xml';
+  if (type === 'text/csv' || type === 'application/csv') return 'csv';
+  if (type.startsWith('text/') || TEXT_TYPES.includes(type)) return 'text';
+  return 'binary';
+}
+
+function decodeText(bytes: Uint8Array, contentType: string | null): string {
+  const charset = /charset="?([\w-]+)"?/i.exec(contentType || '')?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+export function decodeResponseBody(
+  bytes: Uint8Array<ArrayBuffer>,
+  contentType: string | null,
+  statusCode: number,
+  decoding: ResponseDecoding = {}
+): unknown {
+  if (NO_CONTENT_STATUSES.includes(statusCode) || bytes.length === 0) return null;
+
+  const format = decoding.format || detectResponseFormat(contentType);
+
+  if (format === 'binary') {
+    const content: BinaryContent = {
+      $binary: true,
+      contentType: getMediaType(contentType) || 'application/octet-stream',
+      size: bytes.length,
+      encoding: decoding.binary || 'base64',
+    };
+    if (content.encoding === 'passthrough') {
+      passthroughBytes.set(content, bytes);
+    } else {
+      content.data = Buffer.from(bytes).toString('base64');
+    }
+    return content;
+  }
+
+  const text = decodeText(bytes, contentType);
+  if (!text.trim() && format !== 'text') return null;
+
+  switch (format) {
+    case 'json':
+      return JSON.parse(text);
+    case 'xml':
+      return parseXml(text);
+    case 'csv':
+      return parseCsv(text, { delimiter: decoding.csvDelimiter, header: decoding.csvHeader });
+    case 'text':
+      return text;
+    default:
+      // No Content-Type: try JSON as before, otherwise keep the text
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+  }
+}
+
+// Raw response text for logging when decoding fails
+export function describeResponseBody(bytes: Uint8Array, contentType: string | null): string | null {
+  if (bytes.length === 0) return null;
+  if (detectResponseFormat(contentType) === 'binary') return `<${bytes.length} bytes of ${getMediaType(contentType)}>`;
+  return decodeText(bytes, contentType);
+}
+
+export function isBinaryContent(value: unknown): value is BinaryContent {
+  return typeof value === 'object' && value !== null && (value as BinaryContent).$binary === true;
+}
+
+export function getPassthroughBytes(value: unknown): Uint8Array<ArrayBuffer> | undefined {
+  return isBinaryContent(value) ? passthroughBytes.get(value) : undefined;
+}
@@ -0,0 +1,229 @@
+// Minimal XML to JSON conversion so block outputs can address XML responses
+// with JSONPath. Conventions:
+//   - the document becomes `{ rootName: element }`
+//   - attributes are stored as `@name`, mixed text content as `#text`
+//   - repeated child elements become arrays
+//   - elements with only text become strings, empty elements become ''
+
+type XmlElement = Record<string, unknown>;
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const NAME = /[A-Za-z_:][\w:.\-]*/y;
+const MAX_DEPTH = 256;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return Object.prototype.hasOwnProperty.call(ENTITIES, entity) ? ENTITIES[entity] : match;
+  });
+}
+
+// defineProperty so that names like '__proto__' stay plain data properties
+function setProperty(target: XmlElement, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function addChild(target: XmlElement, name: string, value: unknown): void {
+  if (!Object.prototype.hasOwnProperty.call(target, name)) {
+    setProperty(target, name, value);
+    return;
+  }
+  // Element values are never arrays, so an array here is one started by an earlier sibling
+  const existing = target[name];
+  if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    setProperty(target, name, [existing, value]);
+  }
+}
+
+class XmlParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): XmlElement {
+    this.skipMisc();
+    if (this.peek() !== '<') {
+      throw this.error('Expected a root element');
+    }
+
+    const { name, value } = this.parseElement(0);
+    this.skipMisc();
+    if (this.pos < this.source.length) {
+      throw this.error('Unexpected content after the root element');
+    }
+
+    const document: XmlElement = {};
+    setProperty(document, name, value);
+    return document;
+  }
+
+  // Skips the XML declaration, processing instructions, comments, DOCTYPE and whitespace
+  private skipMisc(): void {
+    for (;;) {
+      while (/\s/.test(this.peek())) this.pos++;
+
+      if (this.source.startsWith('<?', this.pos)) {
+        this.skipPast('?>');
+      } else if (this.source.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else if (this.source.startsWith('<!DOCTYPE', this.pos)) {
+        this.skipDoctype();
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipDoctype(): void {
+    // Internal subsets are skipped, entity declarations are not expanded
+    let depth = 0;
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos++];
+      if (char === '[') depth++;
+      else if (char === ']') depth--;
+      else if (char === '>' && depth <= 0) return;
+    }
+    throw this.error('Unterminated DOCTYPE');
+  }
+
+  private parseElement(depth: number): { name: string; value: unknown } {
+    if (depth > MAX_DEPTH) {
+      throw this.error(`XML is nested deeper than ${MAX_DEPTH} levels`);
+    }
+
+    this.expect('<');
+    const name = this.parseName();
+    const element: XmlElement = {};
+
+    // Attributes
+    for (;;) {
+      while (/\s/.test(this.peek())) this.pos++;
+
+      if (this.source.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return { name, value: Object.keys(element).length ? element : '' };
+      }
+      if (this.peek() === '>') {
+        this.pos++;
+        break;
+      }
+
+      const attribute = this.parseName();
+      while (/\s/.test(this.peek())) this.pos++;
+      this.expect('=');
+      while (/\s/.test(this.peek())) this.pos++;
+      setProperty(element, `@${attribute}`, this.parseQuoted());
+    }
+
+    // Content
+    let text = '';
+    let hasChildren = false;
+
+    for (;;) {
+      if (this.pos >= this.source.length) {
+        throw this.error(`Unclosed element <${name}>`);
+      }
+
+      if (this.source.startsWith('</', this.pos)) {
+        this.pos += 2;
+        const closing = this.parseName();
+        if (closing !== name) {
+          throw this.error(`Expected </${name}> but found </${closing}>`);
+        }
+        while (/\s/.test(this.peek())) this.pos++;
+        this.expect('>');
+        break;
+      }
+
+      if (this.source.startsWith('<![CDATA[', this.pos)) {
+        const end = this.source.indexOf(']]>', this.pos);
+        if (end === -1) throw this.error('Unterminated CDATA section');
+        text += this.source.slice(this.pos + 9, end);
+        this.pos = end + 3;
+      } else if (this.source.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else if (this.source.startsWith('<?', this.pos)) {
+        this.skipPast('?>');
+      } else if (this.peek() === '<') {
+        const child = this.parseElement(depth + 1);
+        addChild(element, child.name, child.value);
+        hasChildren = true;
+      } else {
+        const end = this.source.indexOf('<', this.pos);
+        const raw = this.source.slice(this.pos, end === -1 ? this.source.length : end);
+        text += decodeEntities(raw);
+        this.pos += raw.length;
+      }
+    }
+
+    const trimmed = text.trim();
+    if (!hasChildren && Object.keys(element).length === 0) {
+      return { name, value: trimmed };
+    }
+    if (trimmed) {
+      setProperty(element, '#text', trimmed);
+    }
+    return { name, value: element };
+  }
+
+  private parseName(): string {
+    NAME.lastIndex = this.pos;
+    const match = NAME.exec(this.source);
+    if (!match) {
+      throw this.error('Expected a name');
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private parseQuoted(): string {
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") {
+      throw this.error('Expected a quoted attribute value');
+    }
+    const end = this.source.indexOf(quote, this.pos + 1);
+    if (end === -1) {
+      throw this.error('Unterminated attribute value');
+    }
+    const value = decodeEntities(this.source.slice(this.pos + 1, end));
+    this.pos = end + 1;
+    return value;
+  }
+
+  private skipPast(terminator: string): void {
+    const end = this.source.indexOf(terminator, this.pos);
+    if (end === -1) {
+      throw this.error(`Expected '${terminator}'`);
+    }
+    this.pos = end + terminator.length;
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? '';
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      throw this.error(`Expected '${char}'`);
+    }
+    this.pos++;
+  }
+
+  private error(message: string): Error {
+    return new Error(`Invalid XML: ${message} (at position ${this.pos})`);
+  }
+}
+
+export function parseXml(text: string): Record<string, unknown> {
+  return new XmlParser(text.replace(/^\uFEFF/, '')).parse();
+}
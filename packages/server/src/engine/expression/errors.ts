@@ -0,0 +1,9 @@
+export class ExpressionError extends Error {
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
@@ -0,0 +1,229 @@
+import { ExpressionError } from './errors';
+import type { ExpressionNode } from './parser';
+import { MAX_STRING_LENGTH, type ExpressionFunction } from './functions';
+
+// Guards against runaway evaluation, e.g. nested map() over large arrays
+const MAX_STEPS = 100000;
+// Total array items helpers may return in one evaluation, e.g. map(range(...), ...) nested
+const MAX_ARRAY_ITEMS = 1000000;
+
+export interface EvaluationOptions {
+  variables: Record<string, unknown>;
+  functions: Record<string, ExpressionFunction>;
+}
+
+interface EvaluationState extends EvaluationOptions {
+  steps: number;
+  items: number;
+}
+
+function hasOwn(target: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+// Only data reachable through own properties is visible to expressions.
+// Prototype members (constructor, __proto__, methods) are never exposed.
+function readProperty(target: unknown, key: unknown, pos: number): unknown {
+  if (typeof key !== 'string' && typeof key !== 'number') {
+    throw new ExpressionError('Property key must be a string or number', pos);
+  }
+  const name = String(key);
+
+  if (typeof target === 'string') {
+    if (name === 'length') return target.length;
+    return /^\d+$/.test(name) ? target[Number(name)] : undefined;
+  }
+
+  if (Array.isArray(target)) {
+    if (name === 'length') return target.length;
+    return /^\d+$/.test(name) ? target[Number(name)] : undefined;
+  }
+
+  if (typeof target === 'object' && target !== null) {
+    return hasOwn(target, name) ? (target as Record<string, unknown>)[name] : undefined;
+  }
+
+  if (typeof target === 'function') {
+    throw new ExpressionError('Cannot access properties of a function', pos);
+  }
+
+  // Numbers and booleans have no accessible properties
+  return undefined;
+}
+
+function assertOperand(value: unknown, pos: number): void {
+  if (typeof value === 'function') {
+    throw new ExpressionError('Lambdas can only be passed to helper functions', pos);
+  }
+}
+
+function evaluateBinary(operator: string, left: unknown, right: unknown, pos: number): unknown {
+  assertOperand(left, pos);
+  assertOperand(right, pos);
+
+  switch (operator) {
+    // Equality is always strict; there is no type coercion between strings and numbers
+    case '==':
+    case '===':
+      return left === right;
+    case '!=':
+    case '!==':
+      return left !== right;
+    case '<':
+      return (left as number) < (right as number);
+    case '<=':
+      return (left as number) <= (right as number);
+    case '>':
+      return (left as number) > (right as number);
+    case '>=':
+      return (left as number) >= (right as number);
+    case '+':
+      if (typeof left === 'number' && typeof right === 'number') return left + right;
+      return concatenate(stringify(left), stringify(right), pos);
+    case '-':
+      return (left as number) - (right as number);
+    case '*':
+      return (left as number) * (right as number);
+    case '/':
+      return (left as number) / (right as number);
+    case '%':
+      return (left as number) % (right as number);
+  }
+
+  throw new ExpressionError(`Unknown operator '${operator}'`, pos);
+}
+
+// Checks the result length before the string is built
+function concatenate(left: string, right: string, pos: number): string {
+  if (left.length + right.length > MAX_STRING_LENGTH) {
+    throw new ExpressionError(`String concatenation is limited to ${MAX_STRING_LENGTH} characters`, pos);
+  }
+  return left + right;
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>, state: EvaluationState): unknown {
+  if (++state.steps > MAX_STEPS) {
+    throw new ExpressionError(`Expression exceeded ${MAX_STEPS} evaluation steps`);
+  }
+
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      if (hasOwn(scope, node.name)) return scope[node.name];
+      if (hasOwn(state.variables, node.name)) return state.variables[node.name];
+      if (hasOwn(state.functions, node.name)) {
+        throw new ExpressionError(`'${node.name}' is a helper function and must be called`, node.pos);
+      }
+      throw new ExpressionError(`Unknown identifier '${node.name}'`, node.pos);
+
+    case 'member': {
+      const object = evaluateNode(node.object, scope, state);
+      if (object === null || object === undefined) {
+        if (node.optional) return undefined;
+        const property = node.computed ? '[...]' : `.${String((node.property as { value: unknown }).value)}`;
+        throw new ExpressionError(`Cannot read '${property}' of ${object === null ? 'null' : 'undefined'}`, node.pos);
+      }
+      const key = evaluateNode(node.property, scope, state);
+      return readProperty(object, key, node.pos);
+    }
+
+    case 'call': {
+      if (!hasOwn(state.functions, node.callee)) {
+        throw new ExpressionError(`Unknown function '${node.callee}'`, node.pos);
+      }
+      const args = node.args.map(arg =>
+        arg.type === 'lambda' ? createLambda(arg, scope, state) : evaluateNode(arg, scope, state)
+      );
+      let result: unknown;
+      try {
+        result = state.functions[node.callee](...args);
+      } catch (error) {
+        if (error instanceof ExpressionError) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ExpressionError(`${node.callee}() failed: ${message}`, node.pos);
+      }
+      if (Array.isArray(result)) {
+        state.items += result.length;
+        if (state.items > MAX_ARRAY_ITEMS) {
+          throw new ExpressionError(`Expression exceeded ${MAX_ARRAY_ITEMS} array items`, node.pos);
+        }
+      }
+      return result;
+    }
+
+    case 'lambda':
+      throw new ExpressionError('Lambdas can only be passed to helper functions');
+
+    case 'unary': {
+      const argument = evaluateNode(node.argument, scope, state);
+      assertOperand(argument, node.pos);
+      if (node.operator === '!') return !argument;
+      if (node.operator === '-') return -(argument as number);
+      return +(argument as number);
+    }
+
+    case 'binary':
+      return evaluateBinary(
+        node.operator,
+        evaluateNode(node.left, scope, state),
+        evaluateNode(node.right, scope, state),
+        node.pos
+      );
+
+    case 'logical': {
+      const left = evaluateNode(node.left, scope, state);
+      if (node.operator === '&&') return left ? evaluateNode(node.right, scope, state) : left;
+      if (node.operator === '||') return left ? left : evaluateNode(node.right, scope, state);
+      return left ?? evaluateNode(node.right, scope, state);
+    }
+
+    case 'conditional':
+      return evaluateNode(node.test, scope, state)
+        ? evaluateNode(node.consequent, scope, state)
+        : evaluateNode(node.alternate, scope, state);
+
+    case 'array':
+      return node.elements.map(element => evaluateNode(element, scope, state));
+
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        // defineProperty so that a '__proto__' key stays a plain data property
+        Object.defineProperty(result, property.key, {
+          value: evaluateNode(property.value, scope, state),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      return result;
+    }
+  }
+}
+
+function createLambda(
+  node: Extract<ExpressionNode, { type: 'lambda' }>,
+  scope: Record<string, unknown>,
+  state: EvaluationState
+): (...args: unknown[]) => unknown {
+  return (...args: unknown[]) => {
+    const childScope: Record<string, unknown> = { ...scope };
+    node.params.forEach((param, index) => {
+      childScope[param] = args[index];
+    });
+    return evaluateNode(node.body, childScope, state);
+  };
+}
+
+export function evaluateAst(node: ExpressionNode, options: EvaluationOptions): unknown {
+  const state: EvaluationState = { ...options, steps: 0, items: 0 };
+  return evaluateNode(node, {}, state);
+}
@@ -0,0 +1,264 @@
+import dayjs from 'dayjs';
+import { ExpressionError } from './errors';
+
+export type ExpressionFunction = (...args: unknown[]) => unknown;
+
+type Callback = (...args: unknown[]) => unknown;
+
+// Longest string a helper may build, so one expression cannot exhaust memory
+export const MAX_STRING_LENGTH = 100000;
+
+function asString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Checks a result length before the string is built
+function checkLength(length: number, fn: string): void {
+  if (length > MAX_STRING_LENGTH) {
+    throw new ExpressionError(`${fn}() is limited to ${MAX_STRING_LENGTH} characters`);
+  }
+}
+
+function asNumber(value: unknown, fn: string): number {
+  const num = typeof value === 'number' ? value : Number(value);
+  if (Number.isNaN(num)) {
+    throw new ExpressionError(`${fn}() expected a number but got ${JSON.stringify(value)}`);
+  }
+  return num;
+}
+
+function asArray(value: unknown, fn: string): unknown[] {
+  if (value === null || value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new ExpressionError(`${fn}() expected an array but got ${typeof value}`);
+  }
+  return value;
+}
+
+function asCallback(value: unknown, fn: string): Callback {
+  if (typeof value !== 'function') {
+    throw new ExpressionError(`${fn}() expected a lambda such as 'x => x.id'`);
+  }
+  return value as Callback;
+}
+
+function asDate(value: unknown, fn: string): dayjs.Dayjs {
+  const date = value === undefined ? dayjs() : dayjs(value as string | number);
+  if (!date.isValid()) {
+    throw new ExpressionError(`${fn}() got an invalid date: ${JSON.stringify(value)}`);
+  }
+  return date;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, key)) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return asString(a).localeCompare(asString(b));
+}
+
+const DATE_UNITS = ['millisecond', 'second', 'minute', 'hour', 'day', 'week', 'month', 'year'];
+
+function asDateUnit(value: unknown, fn: string): dayjs.ManipulateType {
+  const unit = value === undefined ? 'day' : String(value);
+  if (!DATE_UNITS.includes(unit)) {
+    throw new ExpressionError(`${fn}() unit must be one of: ${DATE_UNITS.join(', ')}`);
+  }
+  return unit as dayjs.ManipulateType;
+}
+
+// String helpers
+const stringFunctions: Record<string, ExpressionFunction> = {
+  string: (value) => asString(value),
+  upper: (value) => asString(value).toUpperCase(),
+  lower: (value) => asString(value).toLowerCase(),
+  trim: (value) => asString(value).trim(),
+  split: (value, separator) => asString(value).split(asString(separator)),
+  replace: (value, search, replacement) => {
+    const parts = asString(value).split(asString(search));
+    const insert = asString(replacement);
+    checkLength(parts.reduce((sum, part) => sum + part.length, 0) + (parts.length - 1) * insert.length, 'replace');
+    return parts.join(insert);
+  },
+  substring: (value, start, end) =>
+    asString(value).substring(asNumber(start, 'substring'), end === undefined ? undefined : asNumber(end, 'substring')),
+  startsWith: (value, search) => asString(value).startsWith(asString(search)),
+  endsWith: (value, search) => asString(value).endsWith(asString(search)),
+  padStart: (value, length, fill) => {
+    const target = asNumber(length, 'padStart');
+    checkLength(target, 'padStart');
+    return asString(value).padStart(target, fill === undefined ? ' ' : asString(fill));
+  },
+  padEnd: (value, length, fill) => {
+    const target = asNumber(length, 'padEnd');
+    checkLength(target, 'padEnd');
+    return asString(value).padEnd(target, fill === undefined ? ' ' : asString(fill));
+  },
+  concat: (...values) => {
+    const strings = values.map(asString);
+    checkLength(strings.reduce((sum, part) => sum + part.length, 0), 'concat');
+    return strings.join('');
+  },
+  encodeUri: (value) => encodeURIComponent(asString(value)),
+  decodeUri: (value) => decodeURIComponent(asString(value)),
+};
+
+// Number helpers
+const numberFunctions: Record<string, ExpressionFunction> = {
+  number: (value) => asNumber(value, 'number'),
+  int: (value) => Math.trunc(asNumber(value, 'int')),
+  round: (value, digits) => {
+    const factor = 10 ** (digits === undefined ? 0 : asNumber(digits, 'round'));
+    return Math.round(asNumber(value, 'round') * factor) / factor;
+  },
+  floor: (value) => Math.floor(asNumber(value, 'floor')),
+  ceil: (value) => Math.ceil(asNumber(value, 'ceil')),
+  abs: (value) => Math.abs(asNumber(value, 'abs')),
+  min: (...values) => Math.min(...values.flat().map(v => asNumber(v, 'min'))),
+  max: (...values) => Math.max(...values.flat().map(v => asNumber(v, 'max'))),
+  clamp: (value, lower, upper) =>
+    Math.min(Math.max(asNumber(value, 'clamp'), asNumber(lower, 'clamp')), asNumber(upper, 'clamp')),
+  sum: (values) => asArray(values, 'sum').reduce<number>((total, v) => total + asNumber(v, 'sum'), 0),
+  avg: (values) => {
+    const items = asArray(values, 'avg');
+    if (items.length === 0) return null;
+    return items.reduce<number>((total, v) => total + asNumber(v, 'avg'), 0) / items.length;
+  },
+  toFixed: (value, digits) => asNumber(value, 'toFixed').toFixed(digits === undefined ? 0 : asNumber(digits, 'toFixed')),
+};
+
+// Date helpers (dates are exchanged as ISO strings)
+const dateFunctions: Record<string, ExpressionFunction> = {
+  now: () => new Date().toISOString(),
+  date: (value) => asDate(value, 'date').toISOString(),
+  formatDate: (value, format) => asDate(value, 'formatDate').format(format === undefined ? undefined : asString(format)),
+  addTime: (value, amount, unit) =>
+    asDate(value, 'addTime').add(asNumber(amount, 'addTime'), asDateUnit(unit, 'addTime')).toISOString(),
+  diffTime: (a, b, unit) =>
+    asDate(a, 'diffTime').diff(asDate(b, 'diffTime'), asDateUnit(unit, 'diffTime') as dayjs.QUnitType),
+  timestamp: (value) => asDate(value, 'timestamp').valueOf(),
+};
+
+// Array and object helpers
+const collectionFunctions: Record<string, ExpressionFunction> = {
+  length: (value) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (isPlainObject(value)) return Object.keys(value).length;
+    return 0;
+  },
+  first: (values) => asArray(values, 'first')[0],
+  last: (values) => {
+    const items = asArray(values, 'last');
+    return items[items.length - 1];
+  },
+  at: (values, index) => asArray(values, 'at').at(asNumber(index, 'at')),
+  slice: (values, start, end) => {
+    const startIndex = asNumber(start ?? 0, 'slice');
+    const endIndex = end === undefined ? undefined : asNumber(end, 'slice');
+    return typeof values === 'string' ? values.slice(startIndex, endIndex) : asArray(values, 'slice').slice(startIndex, endIndex);
+  },
+  join: (values, separator) => {
+    const strings = asArray(values, 'join').map(asString);
+    const glue = separator === undefined ? ',' : asString(separator);
+    checkLength(strings.reduce((sum, part) => sum + part.length, 0) + Math.max(strings.length - 1, 0) * glue.length, 'join');
+    return strings.join(glue);
+  },
+  includes: (value, search) => {
+    if (typeof value === 'string') return value.includes(asString(search));
+    return asArray(value, 'includes').includes(search);
+  },
+  map: (values, fn) => {
+    const callback = asCallback(fn, 'map');
+    return asArray(values, 'map').map((item, index) => callback(item, index));
+  },
+  filter: (values, fn) => {
+    const callback = asCallback(fn, 'filter');
+    return asArray(values, 'filter').filter((item, index) => Boolean(callback(item, index)));
+  },
+  find: (values, fn) => {
+    const callback = asCallback(fn, 'find');
+    return asArray(values, 'find').find((item, index) => Boolean(callback(item, index)));
+  },
+  some: (values, fn) => {
+    const callback = asCallback(fn, 'some');
+    return asArray(values, 'some').some((item, index) => Boolean(callback(item, index)));
+  },
+  every: (values, fn) => {
+    const callback = asCallback(fn, 'every');
+    return asArray(values, 'every').every((item, index) => Boolean(callback(item, index)));
+  },
+  reduce: (values, fn, initial) => {
+    const callback = asCallback(fn, 'reduce');
+    return asArray(values, 'reduce').reduce((acc, item, index) => callback(acc, item, index), initial);
+  },
+  pluck: (values, path) => asArray(values, 'pluck').map(item => getPath(item, asString(path))),
+  get: (value, path, fallback) => getPath(value, asString(path)) ?? fallback,
+  unique: (values) => [...new Set(asArray(values, 'unique'))],
+  flatten: (values) => asArray(values, 'flatten').flat(),
+  compact: (values) => asArray(values, 'compact').filter(v => v !== null && v !== undefined && v !== ''),
+  reverse: (values) => [...asArray(values, 'reverse')].reverse(),
+  sort: (values, path) => {
+    const items = [...asArray(values, 'sort')];
+    const key = path === undefined ? null : asString(path);
+    return items.sort((a, b) => compare(key ? getPath(a, key) : a, key ? getPath(b, key) : b));
+  },
+  range: (start, end) => {
+    const from = asNumber(start, 'range');
+    const to = asNumber(end, 'range');
+    if (to - from > 10000) {
+      throw new ExpressionError('range() is limited to 10000 items');
+    }
+    return Array.from({ length: Math.max(to - from, 0) }, (_, i) => from + i);
+  },
+  keys: (value) => (isPlainObject(value) ? Object.keys(value) : []),
+  values: (value) => (isPlainObject(value) ? Object.values(value) : []),
+  entries: (value) => (isPlainObject(value) ? Object.entries(value).map(([key, v]) => ({ key, value: v })) : []),
+  merge: (...values) => Object.assign({}, ...values.filter(isPlainObject)),
+};
+
+// Type and utility helpers
+const utilityFunctions: Record<string, ExpressionFunction> = {
+  coalesce: (...values) => values.find(v => v !== null && v !== undefined),
+  isEmpty: (value) => {
+    if (value === null || value === undefined || value === '') return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (isPlainObject(value)) return Object.keys(value).length === 0;
+    return false;
+  },
+  typeOf: (value) => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  },
+  boolean: (value) => Boolean(value),
+  toJson: (value) => JSON.stringify(value),
+  parseJson: (value) => {
+    try {
+      return JSON.parse(asString(value));
+    } catch {
+      throw new ExpressionError(`parseJson() got invalid JSON: ${asString(value).slice(0, 50)}`);
+    }
+  },
+};
+
+export const expressionFunctions: Record<string, ExpressionFunction> = {
+  ...stringFunctions,
+  ...numberFunctions,
+  ...dateFunctions,
+  ...collectionFunctions,
+  ...utilityFunctions,
+};
@@ -0,0 +1,39 @@
+import type { ExecutionContext } from '@codeblock-bff/shared';
+import { parseExpression } from './parser';
+import { evaluateAst } from './evaluator';
+import { expressionFunctions } from './functions';
+
+export { ExpressionError } from './errors';
+export { parseExpression } from './parser';
+export type { ExpressionNode } from './parser';
+export { expressionFunctions } from './functions';
+
+// Variables visible to expressions:
+//   inputs    - flow inputs
+//   variables - flow variables
+//   blocks    - prior block results, e.g. blocks.getUser.outputs.id
+//   headers   - incoming request headers by lower-cased name
+export function buildExpressionScope(context: ExecutionContext): Record<string, unknown> {
+  const blocks: Record<string, unknown> = {};
+  for (const [blockId, result] of context.blockResults) {
+    blocks[blockId] = {
+      status: result.status,
+      outputs: result.outputs || {},
+    };
+  }
+
+  return {
+    inputs: context.inputs,
+    variables: context.variables,
+    blocks,
+    headers: context.headers || {},
+  };
+}
+
+export function evaluateExpression(expression: string, scope: Record<string, unknown>): unknown {
+  const ast = parseExpression(expression);
+  return evaluateAst(ast, {
+    variables: scope,
+    functions: expressionFunctions,
+  });
+}
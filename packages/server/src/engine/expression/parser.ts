@@ -0,0 +1,422 @@
+import { ExpressionError } from './errors';
+
+// AST node types
+export type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string; pos: number }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean; optional: boolean; pos: number }
+  | { type: 'call'; callee: string; args: ExpressionNode[]; pos: number }
+  | { type: 'lambda'; params: string[]; body: ExpressionNode }
+  | { type: 'unary'; operator: string; argument: ExpressionNode; pos: number }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; pos: number }
+  | { type: 'logical'; operator: '&&' | '||' | '??'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'object'; properties: Array<{ key: string; value: ExpressionNode }> };
+
+type TokenType = 'number' | 'string' | 'identifier' | 'punctuator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  pos: number;
+}
+
+const MAX_EXPRESSION_LENGTH = 4096;
+
+// Longest operators first so that e.g. '===' wins over '=='
+const PUNCTUATORS = [
+  '===', '!==', '?.', '??', '==', '!=', '<=', '>=', '&&', '||', '=>',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}',
+];
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Numbers
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = source.slice(i).match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/);
+      tokens.push({ type: 'number', value: match![0], pos: i });
+      i += match![0].length;
+      continue;
+    }
+
+    // Strings
+    if (ch === '"' || ch === '\'') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\') {
+          const next = source[i + 1];
+          const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', '"': '"', '\'': '\'' };
+          if (next === undefined) break;
+          value += escapes[next] ?? next;
+          i += 2;
+        } else {
+          value += source[i];
+          i++;
+        }
+      }
+      if (source[i] !== ch) {
+        throw new ExpressionError('Unterminated string literal', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    // Identifiers
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*/);
+      tokens.push({ type: 'identifier', value: match![0], pos: i });
+      i += match![0].length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, i));
+    if (punctuator) {
+      // '?.' followed by a digit is a ternary with a decimal number, not optional chaining
+      if (punctuator === '?.' && /[0-9]/.test(source[i + 2] || '')) {
+        tokens.push({ type: 'punctuator', value: '?', pos: i });
+        i++;
+        continue;
+      }
+      tokens.push({ type: 'punctuator', value: punctuator, pos: i });
+      i += punctuator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${ch}'`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', pos: source.length });
+  return tokens;
+}
+
+// Recursive descent parser. Precedence (low to high):
+// conditional, ??, ||, &&, equality, relational, additive, multiplicative, unary, postfix
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionError(`Unexpected token '${token.value}'`, token.pos);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isPunctuator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private match(...values: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'punctuator' && values.includes(token.value)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.type !== 'punctuator' || token.value !== value) {
+      const found = token.type === 'eof' ? 'end of expression' : `'${token.value}'`;
+      throw new ExpressionError(`Expected '${value}' but found ${found}`, token.pos);
+    }
+    return token;
+  }
+
+  private parseExpression(): ExpressionNode {
+    if (this.isLambdaStart()) {
+      return this.parseLambda();
+    }
+    return this.parseConditional();
+  }
+
+  private isLambdaStart(): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && this.isPunctuator('=>', 1)) {
+      return true;
+    }
+    if (!this.isPunctuator('(')) return false;
+
+    // ( a, b ) =>
+    let offset = 1;
+    if (this.peek(offset).type === 'identifier') {
+      offset++;
+      while (this.isPunctuator(',', offset) && this.peek(offset + 1).type === 'identifier') {
+        offset += 2;
+      }
+    }
+    return this.isPunctuator(')', offset) && this.isPunctuator('=>', offset + 1);
+  }
+
+  private parseLambda(): ExpressionNode {
+    const params: string[] = [];
+    if (this.match('(')) {
+      while (!this.isPunctuator(')')) {
+        params.push(this.next().value);
+        if (!this.isPunctuator(')')) this.expect(',');
+      }
+      this.expect(')');
+    } else {
+      params.push(this.next().value);
+    }
+    this.expect('=>');
+    return { type: 'lambda', params, body: this.parseExpression() };
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseNullish();
+    if (this.match('?')) {
+      const consequent = this.parseExpression();
+      this.expect(':');
+      const alternate = this.parseExpression();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  private parseNullish(): ExpressionNode {
+    let left = this.parseOr();
+    while (this.match('??')) {
+      left = { type: 'logical', operator: '??', left, right: this.parseOr() };
+    }
+    return left;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.match('||')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.match('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    let left = this.parseRelational();
+    let token: Token | null;
+    while ((token = this.match('===', '!==', '==', '!='))) {
+      left = { type: 'binary', operator: token.value, left, right: this.parseRelational(), pos: token.pos };
+    }
+    return left;
+  }
+
+  private parseRelational(): ExpressionNode {
+    let left = this.parseAdditive();
+    let token: Token | null;
+    while ((token = this.match('<', '<=', '>', '>='))) {
+      left = { type: 'binary', operator: token.value, left, right: this.parseAdditive(), pos: token.pos };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let token: Token | null;
+    while ((token = this.match('+', '-'))) {
+      left = { type: 'binary', operator: token.value, left, right: this.parseMultiplicative(), pos: token.pos };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let token: Token | null;
+    while ((token = this.match('*', '/', '%'))) {
+      left = { type: 'binary', operator: token.value, left, right: this.parseUnary(), pos: token.pos };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.match('!', '-', '+');
+    if (token) {
+      return { type: 'unary', operator: token.value, argument: this.parseUnary(), pos: token.pos };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      const token = this.peek();
+
+      if (this.match('.')) {
+        const property = this.next();
+        if (property.type !== 'identifier') {
+          throw new ExpressionError('Expected property name after \'.\'', property.pos);
+        }
+        node = {
+          type: 'member',
+          object: node,
+          property: { type: 'literal', value: property.value },
+          computed: false,
+          optional: false,
+          pos: property.pos,
+        };
+      } else if (this.match('?.')) {
+        if (this.match('[')) {
+          const property = this.parseExpression();
+          this.expect(']');
+          node = { type: 'member', object: node, property, computed: true, optional: true, pos: token.pos };
+        } else {
+          const property = this.next();
+          if (property.type !== 'identifier') {
+            throw new ExpressionError('Expected property name after \'?.\'', property.pos);
+          }
+          node = {
+            type: 'member',
+            object: node,
+            property: { type: 'literal', value: property.value },
+            computed: false,
+            optional: true,
+            pos: property.pos,
+          };
+        }
+      } else if (this.match('[')) {
+        const property = this.parseExpression();
+        this.expect(']');
+        node = { type: 'member', object: node, property, computed: true, optional: false, pos: token.pos };
+      } else if (this.isPunctuator('(')) {
+        // Only named helper functions can be called; values are never callable
+        if (node.type !== 'identifier') {
+          throw new ExpressionError('Only helper functions can be called', token.pos);
+        }
+        this.next();
+        const args: ExpressionNode[] = [];
+        while (!this.isPunctuator(')')) {
+          args.push(this.parseExpression());
+          if (!this.isPunctuator(')')) this.expect(',');
+        }
+        this.expect(')');
+        node = { type: 'call', callee: node.name, args, pos: node.pos };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+        return { type: 'identifier', name: token.value, pos: token.pos };
+      case 'eof':
+        throw new ExpressionError('Unexpected end of expression', token.pos);
+    }
+
+    if (token.value === '(') {
+      const node = this.parseExpression();
+      this.expect(')');
+      return node;
+    }
+
+    if (token.value === '[') {
+      const elements: ExpressionNode[] = [];
+      while (!this.isPunctuator(']')) {
+        elements.push(this.parseExpression());
+        if (!this.isPunctuator(']')) this.expect(',');
+      }
+      this.expect(']');
+      return { type: 'array', elements };
+    }
+
+    if (token.value === '{') {
+      const properties: Array<{ key: string; value: ExpressionNode }> = [];
+      while (!this.isPunctuator('}')) {
+        const keyToken = this.next();
+        if (keyToken.type !== 'identifier' && keyToken.type !== 'string') {
+          throw new ExpressionError('Expected property key', keyToken.pos);
+        }
+        // Shorthand { id } is equivalent to { id: id }
+        if (keyToken.type === 'identifier' && (this.isPunctuator(',') || this.isPunctuator('}'))) {
+          properties.push({ key: keyToken.value, value: { type: 'identifier', name: keyToken.value, pos: keyToken.pos } });
+        } else {
+          this.expect(':');
+          properties.push({ key: keyToken.value, value: this.parseExpression() });
+        }
+        if (!this.isPunctuator('}')) this.expect(',');
+      }
+      this.expect('}');
+      return { type: 'object', properties };
+    }
+
+    throw new ExpressionError(`Unexpected token '${token.value}'`, token.pos);
+  }
+}
+
+// Parsed ASTs are cached since the same mapping runs on every execution
+const astCache = new Map<string, ExpressionNode>();
+const MAX_CACHE_SIZE = 1000;
+
+export function parseExpression(source: string): ExpressionNode {
+  const cached = astCache.get(source);
+  if (cached) return cached;
+
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const ast = new Parser(source).parse();
+
+  if (astCache.size >= MAX_CACHE_SIZE) {
+    astCache.clear();
+  }
+  astCache.set(source, ast);
+
+  return ast;
+}
@@ -0,0 +1,222 @@
+import type { ExecutionContext, Flow, FlowBlock, FlowConfig, HeaderForwardingPolicy, HeaderValue } from '@codeblock-bff/shared';
+import { buildExpressionScope, evaluateExpression, parseExpression } from './expression';
+import type { ExpressionNode } from './expression';
+import { isPlainObject } from './path';
+
+// Connection-level headers that must never be copied from one hop to the next
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'transfer-encoding',
+  'te',
+  'trailer',
+  'upgrade',
+  'host',
+  'content-length',
+];
+
+const HEADER_NAME = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// Block settings extend the flow's: allowlists are combined, renames and set
+// values of the block win
+export function mergeHeaderPolicies(
+  flowPolicy: HeaderForwardingPolicy | undefined,
+  blockPolicy: HeaderForwardingPolicy | undefined
+): HeaderForwardingPolicy {
+  return {
+    allow: [...(flowPolicy?.allow || []), ...(blockPolicy?.allow || [])],
+    rename: { ...flowPolicy?.rename, ...blockPolicy?.rename },
+    set: { ...flowPolicy?.set, ...blockPolicy?.set },
+  };
+}
+
+// Headers an upstream call receives from the policy: allowed caller headers
+// (renamed where configured), then fixed and expression values
+export function resolveForwardedHeaders(
+  policy: HeaderForwardingPolicy,
+  context: ExecutionContext
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  const callerHeaders = context.headers || {};
+  const renames = new Map(Object.entries(policy.rename || {}).map(([from, to]) => [from.toLowerCase(), to]));
+
+  for (const name of new Set((policy.allow || []).map(name => name.toLowerCase()))) {
+    const value = callerHeaders[name];
+    if (value === undefined || HOP_BY_HOP_HEADERS.includes(name)) continue;
+    result[renames.get(name) || name] = value;
+  }
+
+  let scope: Record<string, unknown> | null = null;
+  for (const [name, value] of Object.entries(policy.set || {})) {
+    let resolved: unknown = value;
+    if (typeof value !== 'string') {
+      scope ??= buildExpressionScope(context);
+      try {
+        resolved = evaluateExpression(value.expression, scope);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Expression evaluation failed';
+        throw new Error(`Expression for header "${name}" failed: ${message}`);
+      }
+    }
+
+    // Replace a forwarded header regardless of its case
+    for (const existing of Object.keys(result)) {
+      if (existing.toLowerCase() === name.toLowerCase()) delete result[existing];
+    }
+    // Expressions resolving to nothing leave the header out
+    if (resolved !== undefined && resolved !== null && resolved !== '') {
+      result[name] = String(resolved);
+    }
+  }
+
+  return result;
+}
+
+// Caller headers that any block of the flow forwards, lower-cased
+export function getForwardedHeaderNames(config: FlowConfig | undefined, blocks: FlowBlock[]): string[] {
+  const names = new Set((config?.headers?.allow || []).map(name => name.toLowerCase()));
+  const collect = (flowBlocks: FlowBlock[]) => {
+    for (const flowBlock of flowBlocks) {
+      for (const name of flowBlock.config?.headers?.allow || []) {
+        names.add(name.toLowerCase());
+      }
+      if (flowBlock.loop?.blocks) collect(flowBlock.loop.blocks);
+    }
+  };
+  collect(blocks);
+  return [...names].sort();
+}
+
+// Caller headers read by a flow's expressions, lower-cased. `dynamic` is set
+// when some expression reads headers whose names cannot be known ahead of
+// time, e.g. `headers[inputs.name]` or `keys(headers)`.
+export interface ExpressionHeaderReads {
+  names: string[];
+  dynamic: boolean;
+}
+
+function collectHeaderReads(node: ExpressionNode, names: Set<string>): boolean {
+  const visit = (child: ExpressionNode) => collectHeaderReads(child, names);
+
+  switch (node.type) {
+    case 'literal':
+      return true;
+    case 'identifier':
+      return node.name !== 'headers';
+    case 'member':
+      if (node.object.type === 'identifier' && node.object.name === 'headers' && node.property.type === 'literal') {
+        names.add(String(node.property.value).toLowerCase());
+        return true;
+      }
+      return [node.object, node.property].map(visit).every(Boolean);
+    case 'call':
+      return node.args.map(visit).every(Boolean);
+    case 'lambda':
+      return visit(node.body);
+    case 'unary':
+      return visit(node.argument);
+    case 'binary':
+    case 'logical':
+      return [node.left, node.right].map(visit).every(Boolean);
+    case 'conditional':
+      return [node.test, node.consequent, node.alternate].map(visit).every(Boolean);
+    case 'array':
+      return node.elements.map(visit).every(Boolean);
+    case 'object':
+      return node.properties.map(property => visit(property.value)).every(Boolean);
+  }
+}
+
+// Every expression evaluated with the caller's headers in scope: input
+// mappings, connection conditions and header values, including loop bodies
+// and compensations. Unparseable expressions count as dynamic.
+export function getExpressionHeaderReads(flow: Pick<Flow, 'blocks' | 'connections' | 'config'>): ExpressionHeaderReads {
+  const names = new Set<string>();
+  let dynamic = false;
+
+  const walk = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+      return;
+    }
+    if (!isPlainObject(value)) return;
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'expression' && typeof child === 'string') {
+        try {
+          if (!collectHeaderReads(parseExpression(child), names)) dynamic = true;
+        } catch {
+          dynamic = true;
+        }
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk([flow.blocks, flow.connections, flow.config?.headers]);
+
+  return { names: [...names].sort(), dynamic };
+}
+
+function validateHeaderValue(value: HeaderValue): string | null {
+  if (typeof value === 'string') return null;
+  if (!isPlainObject(value) || typeof value.expression !== 'string') {
+    return 'must be a string or { expression }';
+  }
+  try {
+    parseExpression(value.expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+}
+
+// Returns a message describing the first problem with a policy, or null
+export function validateHeaderPolicy(policy: HeaderForwardingPolicy): string | null {
+  if (!isPlainObject(policy)) return 'must be an object';
+
+  const { allow = [], rename = {}, set = {} } = policy as HeaderForwardingPolicy;
+  if (!Array.isArray(allow)) return 'allow must be a list of header names';
+
+  for (const name of allow) {
+    if (typeof name !== 'string' || !HEADER_NAME.test(name)) {
+      return `allow: "${name}" is not a valid header name`;
+    }
+    if (HOP_BY_HOP_HEADERS.includes(name.toLowerCase())) {
+      return `allow: "${name}" cannot be forwarded`;
+    }
+  }
+  for (const [from, to] of Object.entries(rename)) {
+    if (typeof to !== 'string' || !HEADER_NAME.test(to)) {
+      return `rename.${from}: "${to}" is not a valid header name`;
+    }
+  }
+  for (const [name, value] of Object.entries(set)) {
+    if (!HEADER_NAME.test(name)) {
+      return `set: "${name}" is not a valid header name`;
+    }
+    const error = validateHeaderValue(value);
+    if (error) return `set.${name}: ${error}`;
+  }
+  return null;
+}
+
+// Checks the flow's header policy and those of its blocks, including loop bodies
+export function validateFlowHeaders(config: FlowConfig | undefined, blocks: FlowBlock[]): string | null {
+  if (config?.headers) {
+    const error = validateHeaderPolicy(config.headers);
+    if (error) return `config.headers: ${error}`;
+  }
+
+  const check = (flowBlocks: FlowBlock[]): string | null => {
+    for (const flowBlock of flowBlocks) {
+      const policy = flowBlock.config?.headers;
+      const error = policy ? validateHeaderPolicy(policy) : null;
+      if (error) return `blocks.${flowBlock.id}.config.headers: ${error}`;
+      const nested = flowBlock.loop?.blocks ? check(flowBlock.loop.blocks) : null;
+      if (nested) return nested;
+    }
+    return null;
+  };
+  return check(blocks);
+}
@@ -0,0 +1,18 @@
+export * from './expression';
+export * from './jsonpath';
+export * from './decode';
+export * from './transform';
+export * from './aggregate';
+export * from './retry';
+export * from './blocks';
+export * from './validation';
+export * from './logging';
+export * from './request';
+export * from './mock';
+export * from './headers';
+export * from './credentials';
+export * from './caching';
+export * from './circuit';
+export * from './jobs';
+export * from './cron';
+export * from './scheduler';
@@ -0,0 +1,176 @@
+import { cacheService, getRedis } from '../config/redis';
+import type { ExecutionRequest, ExecutionTrigger, Flow, Job } from '@codeblock-bff/shared';
+
+// Jobs, their payloads and results are dropped this long after creation
+const JOB_TTL_SECONDS = parseInt(process.env.JOB_TTL_SECONDS || '3600', 10);
+
+// A worker renews the lease of its job while running it; jobs whose lease
+// ran out (the worker crashed or lost Redis) are failed by recoverStaleJobs
+export const JOB_LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS || '30', 10);
+
+const QUEUE_KEY = 'jobs:queue';
+// Claimed jobs stay here until finished, so crashed workers leave a trace
+const PROCESSING_KEY = 'jobs:processing';
+const RECOVERY_LOCK_KEY = 'jobs:recovery';
+
+// Moves the oldest queued job to the processing list and takes its lease in
+// one step, so no claimed job is ever without one
+const CLAIM_SCRIPT = `
+local jobId = redis.call('LMOVE', KEYS[1], KEYS[2], 'RIGHT', 'LEFT')
+if jobId then
+  redis.call('SET', 'job:' .. jobId .. ':lease', '1', 'EX', ARGV[1])
+end
+return jobId
+`;
+
+// What the worker needs to run a job. Kept apart from the job itself because
+// the caller's headers may hold credentials; it is deleted once claimed.
+export interface QueuedExecution {
+  inputs: Record<string, unknown>;
+  headers: Record<string, string>; // incoming request headers, for forwarding
+  request: ExecutionRequest;       // as recorded in the execution log
+  trigger: ExecutionTrigger;
+}
+
+function jobKey(jobId: string): string {
+  return `job:${jobId}`;
+}
+
+function payloadKey(jobId: string): string {
+  return `job:${jobId}:payload`;
+}
+
+function cancelKey(jobId: string): string {
+  return `job:${jobId}:cancel`;
+}
+
+function leaseKey(jobId: string): string {
+  return `job:${jobId}:lease`;
+}
+
+// Whoever takes this first decides a queued job's fate: a worker starts it or
+// a cancellation stops it before it runs. Reading the status instead would race.
+function startKey(jobId: string): string {
+  return `job:${jobId}:start`;
+}
+
+// Remaining lifetime of a job, so updates never extend it
+function getRemainingTtl(job: Job): number {
+  return Math.max(Math.ceil((Date.parse(job.expiresAt) - Date.now()) / 1000), 1);
+}
+
+export async function getJob(jobId: string): Promise<Job | null> {
+  return cacheService.get<Job>(jobKey(jobId));
+}
+
+export async function saveJob(job: Job): Promise<void> {
+  await cacheService.set(jobKey(job.id), job, getRemainingTtl(job));
+}
+
+export async function enqueueJob(flow: Flow, isTest: boolean, payload: QueuedExecution): Promise<Job> {
+  const now = new Date();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    flowId: flow._id || '',
+    flowSlug: flow.slug,
+    test: isTest,
+    status: 'queued',
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + JOB_TTL_SECONDS * 1000).toISOString(),
+  };
+
+  await cacheService.set(payloadKey(job.id), payload, JOB_TTL_SECONDS);
+  await saveJob(job);
+  await getRedis().lpush(QUEUE_KEY, job.id);
+  return job;
+}
+
+// Drops a job from the processing list along with its lease and cancel flag
+async function releaseJob(jobId: string): Promise<void> {
+  await getRedis().send('LREM', [PROCESSING_KEY, '0', jobId]);
+  await Promise.all([cacheService.del(leaseKey(jobId)), cacheService.del(cancelKey(jobId))]);
+}
+
+// Takes the oldest queued job and marks it running. Jobs that were cancelled
+// or expired while queued are dropped. Returns null when the queue is empty.
+export async function claimNextJob(): Promise<{ job: Job; payload: QueuedExecution } | null> {
+  for (;;) {
+    const jobId = await cacheService.eval<string | null>(CLAIM_SCRIPT, [QUEUE_KEY, PROCESSING_KEY], [JOB_LEASE_SECONDS]);
+    if (!jobId) return null;
+
+    const [job, payload] = await Promise.all([
+      getJob(jobId),
+      cacheService.get<QueuedExecution>(payloadKey(jobId)),
+    ]);
+    await cacheService.del(payloadKey(jobId));
+    if (!job || !payload || !await cacheService.acquireLock(startKey(jobId), getRemainingTtl(job))) {
+      await releaseJob(jobId);
+      continue;
+    }
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    await saveJob(job);
+    return { job, payload };
+  }
+}
+
+// Called by the worker while it runs the job
+export async function renewJobLease(jobId: string): Promise<void> {
+  await getRedis().expire(leaseKey(jobId), JOB_LEASE_SECONDS);
+}
+
+// Stores the job's final state and releases it
+export async function finishJob(job: Job): Promise<void> {
+  await saveJob(job);
+  await releaseJob(job.id);
+}
+
+// Fails jobs whose worker stopped renewing their lease. Returns how many were
+// failed; one instance at a time does the check.
+export async function recoverStaleJobs(): Promise<number> {
+  if (!await cacheService.acquireLock(RECOVERY_LOCK_KEY, JOB_LEASE_SECONDS)) return 0;
+
+  const jobIds = await getRedis().send('LRANGE', [PROCESSING_KEY, '0', '-1']) as string[];
+  let failed = 0;
+  for (const jobId of jobIds) {
+    if (await cacheService.get(leaseKey(jobId)) !== null) continue;
+
+    // Queued jobs get here when their worker died right after claiming them
+    const job = await getJob(jobId);
+    if (job?.status === 'running' || job?.status === 'queued') {
+      await saveJob({
+        ...job,
+        status: 'failed',
+        error: { message: 'The worker running the job stopped', code: 'WORKER_LOST' },
+        completedAt: new Date().toISOString(),
+      });
+      failed++;
+    }
+    await releaseJob(jobId);
+  }
+  return failed;
+}
+
+// Queued jobs are cancelled right away; running ones are flagged for their
+// worker to abort. Returns null when the job does not exist.
+export async function cancelJob(jobId: string): Promise<Job | null> {
+  const job = await getJob(jobId);
+  if (!job) return null;
+  if (job.status !== 'queued' && job.status !== 'running') return job;
+
+  // Taking the start lock first means no worker will ever run the job
+  if (await cacheService.acquireLock(startKey(jobId), getRemainingTtl(job))) {
+    const cancelled: Job = { ...job, status: 'cancelled', completedAt: new Date().toISOString() };
+    await saveJob(cancelled);
+    return cancelled;
+  }
+
+  // A worker has it, or is about to mark it running
+  await cacheService.set(cancelKey(jobId), true, getRemainingTtl(job));
+  return job;
+}
+
+export async function isJobCancellationRequested(jobId: string): Promise<boolean> {
+  return (await cacheService.get<boolean>(cancelKey(jobId))) === true;
+}
@@ -0,0 +1,9 @@
+export class JsonPathError extends Error {
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'JsonPathError';
+    this.position = position;
+  }
+}
@@ -0,0 +1,221 @@
+import { JsonPathError } from './errors';
+import type { JsonPathQuery, JsonPathSelector, FilterNode, FilterOperand } from './parser';
+
+// Guards against result explosion, e.g. nested `..` over large documents
+const MAX_NODES = 100000;
+
+function hasOwn(target: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  return [];
+}
+
+// The node itself followed by all of its descendants, in document order
+function descendants(value: unknown, nodes: unknown[] = []): unknown[] {
+  nodes.push(value);
+  if (nodes.length > MAX_NODES) {
+    throw new JsonPathError(`JSONPath query visited more than ${MAX_NODES} nodes`);
+  }
+  for (const child of children(value)) {
+    descendants(child, nodes);
+  }
+  return nodes;
+}
+
+function normalizeIndex(index: number, length: number): number {
+  return index >= 0 ? index : length + index;
+}
+
+// Slice bounds as defined in RFC 9535 §2.3.4.2
+function slice(array: unknown[], start: number | undefined, end: number | undefined, step = 1): unknown[] {
+  const length = array.length;
+  const result: unknown[] = [];
+  if (step === 0) return result;
+
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalizeIndex(start ?? 0, length), 0), length);
+    const upper = Math.min(Math.max(normalizeIndex(end ?? length, length), 0), length);
+    for (let i = lower; i < upper; i += step) result.push(array[i]);
+  } else {
+    const upper = Math.min(Math.max(normalizeIndex(start ?? length - 1, length), -1), length - 1);
+    const lower = Math.min(Math.max(end === undefined ? -1 : normalizeIndex(end, length), -1), length - 1);
+    for (let i = upper; lower < i; i += step) result.push(array[i]);
+  }
+
+  return result;
+}
+
+function select(selector: JsonPathSelector, value: unknown, root: unknown, output: unknown[]): void {
+  switch (selector.type) {
+    case 'name':
+      if (isObject(value)) {
+        if (hasOwn(value, selector.name)) output.push(value[selector.name]);
+      } else if (Array.isArray(value) && selector.dotted && /^\d+$/.test(selector.name)) {
+        // `items.0` keeps working as it did with plain dotted paths
+        const index = Number(selector.name);
+        if (index < value.length) output.push(value[index]);
+      }
+      return;
+
+    case 'wildcard':
+      output.push(...children(value));
+      return;
+
+    case 'index':
+      if (Array.isArray(value)) {
+        const index = normalizeIndex(selector.index, value.length);
+        if (index >= 0 && index < value.length) output.push(value[index]);
+      }
+      return;
+
+    case 'slice':
+      if (Array.isArray(value)) {
+        output.push(...slice(value, selector.start, selector.end, selector.step));
+      }
+      return;
+
+    case 'filter':
+      for (const child of children(value)) {
+        if (evaluateFilter(selector.expression, root, child)) output.push(child);
+      }
+      return;
+  }
+}
+
+export function evaluateQuery(query: JsonPathQuery, root: unknown, current: unknown = root): unknown[] {
+  let nodes = [query.root === '$' ? root : current];
+
+  for (const segment of query.segments) {
+    const next: unknown[] = [];
+    for (const node of nodes) {
+      const targets = segment.descendant ? descendants(node) : [node];
+      for (const target of targets) {
+        for (const selector of segment.selectors) {
+          select(selector, target, root, next);
+        }
+      }
+    }
+    if (next.length > MAX_NODES) {
+      throw new JsonPathError(`JSONPath query selected more than ${MAX_NODES} nodes`);
+    }
+    nodes = next;
+  }
+
+  return nodes;
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, i) => deepEqual(item, right[i]));
+  }
+
+  if (isObject(left) && isObject(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length
+      && keys.every(key => hasOwn(right, key) && deepEqual(left[key], right[key]));
+  }
+
+  return false;
+}
+
+function lessThan(left: unknown, right: unknown): boolean {
+  if (typeof left === 'number' && typeof right === 'number') return left < right;
+  if (typeof left === 'string' && typeof right === 'string') return left < right;
+  return false;
+}
+
+function testRegex(value: unknown, pattern: unknown, anchored: boolean): boolean {
+  if (typeof value !== 'string' || typeof pattern !== 'string') return false;
+  try {
+    return new RegExp(anchored ? `^(?:${pattern})$` : pattern, 'u').test(value);
+  } catch {
+    return false;
+  }
+}
+
+// Evaluates an operand to a single value. A query yields its value only when it
+// selects exactly one node; otherwise the result is undefined ("Nothing" in RFC 9535).
+function evaluateOperand(operand: FilterOperand, root: unknown, current: unknown): unknown {
+  switch (operand.type) {
+    case 'literal':
+      return operand.value;
+
+    case 'query': {
+      const nodes = evaluateQuery(operand.query, root, current);
+      return nodes.length === 1 ? nodes[0] : undefined;
+    }
+
+    case 'function': {
+      const [first, second] = operand.args;
+
+      switch (operand.name) {
+        case 'length': {
+          const value = evaluateOperand(first, root, current);
+          if (typeof value === 'string') return [...value].length;
+          if (Array.isArray(value)) return value.length;
+          if (isObject(value)) return Object.keys(value).length;
+          return undefined;
+        }
+        case 'count':
+          return first.type === 'query' ? evaluateQuery(first.query, root, current).length : undefined;
+        case 'value':
+          return evaluateOperand(first, root, current);
+        case 'match':
+          return testRegex(evaluateOperand(first, root, current), evaluateOperand(second, root, current), true);
+        case 'search':
+          return testRegex(evaluateOperand(first, root, current), evaluateOperand(second, root, current), false);
+      }
+
+      throw new JsonPathError(`Unknown function '${operand.name}'`);
+    }
+  }
+}
+
+function evaluateFilter(node: FilterNode, root: unknown, current: unknown): boolean {
+  switch (node.type) {
+    case 'or':
+      return evaluateFilter(node.left, root, current) || evaluateFilter(node.right, root, current);
+
+    case 'and':
+      return evaluateFilter(node.left, root, current) && evaluateFilter(node.right, root, current);
+
+    case 'not':
+      return !evaluateFilter(node.operand, root, current);
+
+    case 'test':
+      if (node.operand.type === 'query') {
+        return evaluateQuery(node.operand.query, root, current).length > 0;
+      }
+      return evaluateOperand(node.operand, root, current) === true;
+
+    case 'compare': {
+      const left = evaluateOperand(node.left, root, current);
+      const right = evaluateOperand(node.right, root, current);
+
+      switch (node.operator) {
+        case '==':
+          return deepEqual(left, right);
+        case '!=':
+          return !deepEqual(left, right);
+        case '<':
+          return lessThan(left, right);
+        case '<=':
+          return lessThan(left, right) || deepEqual(left, right);
+        case '>':
+          return lessThan(right, left);
+        case '>=':
+          return lessThan(right, left) || deepEqual(left, right);
+      }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { parseJsonPath, isSingular } from './parser';
+import { evaluateQuery } from './evaluator';
+
+export { JsonPathError } from './errors';
+export { parseJsonPath } from './parser';
+
+// Paths saved before full JSONPath support may omit the leading `$`
+function normalizePath(path: string): string {
+  const trimmed = path.trim();
+  if (!trimmed) return '$';
+  if (trimmed.startsWith('$')) return trimmed;
+  return trimmed.startsWith('[') ? `$${trimmed}` : `$.${trimmed}`;
+}
+
+// Every value the path selects, in document order
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  return evaluateQuery(parseJsonPath(normalizePath(path)), data);
+}
+
+// Singular paths such as `$.user.id` return the selected value (or undefined);
+// any other path, e.g. `$.items[*].id`, returns the array of matches
+export function extractJsonPath(data: unknown, path: string): unknown {
+  const query = parseJsonPath(normalizePath(path));
+  const nodes = evaluateQuery(query, data);
+  return isSingular(query) ? nodes[0] : nodes;
+}
+
+// Returns a human readable problem, or null when the path is valid
+export function validateJsonPath(path: string): string | null {
+  try {
+    parseJsonPath(normalizePath(path));
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid JSONPath';
+  }
+}
@@ -0,0 +1,449 @@
+import { JsonPathError } from './errors';
+
+// Query AST, following RFC 9535
+export interface JsonPathQuery {
+  root: '$' | '@';
+  segments: JsonPathSegment[];
+}
+
+export interface JsonPathSegment {
+  // Descendant (`..`) segments apply their selectors to the node and everything below it
+  descendant: boolean;
+  selectors: JsonPathSelector[];
+}
+
+export type JsonPathSelector =
+  | { type: 'name'; name: string; dotted: boolean }
+  | { type: 'wildcard' }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number; step?: number }
+  | { type: 'filter'; expression: FilterNode };
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type FilterOperand =
+  | { type: 'literal'; value: unknown }
+  | { type: 'query'; query: JsonPathQuery }
+  | { type: 'function'; name: string; args: FilterOperand[] };
+
+export type FilterNode =
+  | { type: 'or' | 'and'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; operand: FilterNode }
+  | { type: 'compare'; operator: ComparisonOperator; left: FilterOperand; right: FilterOperand }
+  // A query on its own tests for existence; a function call tests its result
+  | { type: 'test'; operand: FilterOperand };
+
+const MAX_PATH_LENGTH = 4096;
+
+// Function extensions from RFC 9535 §2.4 and their arity
+export const FILTER_FUNCTIONS: Record<string, number> = {
+  length: 1,
+  count: 1,
+  match: 2,
+  search: 2,
+  value: 1,
+};
+
+// match() and search() produce a logical result, so they can only be used as
+// tests; the other functions produce values, so they can only be compared
+const LOGICAL_FUNCTIONS = ['match', 'search'];
+
+// Longest operators first so that e.g. '<=' wins over '<'
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '/': '/',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+};
+
+// Member names after a dot. Dashes are accepted as well, which RFC 9535 only
+// allows in bracket notation, since paths like `$.content-type` are common.
+const DOT_NAME = /[A-Za-z0-9_\-\u0080-\uffff]+/y;
+const INTEGER = /-?\d+/y;
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER = /[a-z_][a-z0-9_]*/y;
+
+// A singular query can select at most one node: only names and indexes,
+// no wildcards, slices, filters or descendant segments
+export function isSingular(query: JsonPathQuery): boolean {
+  return query.segments.every(segment =>
+    !segment.descendant
+    && segment.selectors.length === 1
+    && (segment.selectors[0].type === 'name' || segment.selectors[0].type === 'index')
+  );
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): JsonPathQuery {
+    if (this.peek() !== '$') {
+      throw this.error("JSONPath must start with '$'");
+    }
+    const query = this.parseQuery();
+    if (this.pos < this.source.length) {
+      throw this.error(`Unexpected '${this.peek()}'`);
+    }
+    return query;
+  }
+
+  private parseQuery(): JsonPathQuery {
+    const root = this.peek();
+    if (root !== '$' && root !== '@') {
+      throw this.error("Expected '$' or '@'");
+    }
+    this.pos++;
+    return { root, segments: this.parseSegments() };
+  }
+
+  private parseSegments(): JsonPathSegment[] {
+    const segments: JsonPathSegment[] = [];
+
+    for (;;) {
+      // Blanks may separate segments, but must not be consumed if no segment follows
+      const start = this.pos;
+      this.skipBlank();
+
+      if (this.source.startsWith('..', this.pos)) {
+        this.pos += 2;
+        const selectors = this.peek() === '[' ? this.parseBracket() : [this.parseDotSelector()];
+        segments.push({ descendant: true, selectors });
+      } else if (this.peek() === '.') {
+        this.pos++;
+        segments.push({ descendant: false, selectors: [this.parseDotSelector()] });
+      } else if (this.peek() === '[') {
+        segments.push({ descendant: false, selectors: this.parseBracket() });
+      } else {
+        this.pos = start;
+        return segments;
+      }
+    }
+  }
+
+  private parseDotSelector(): JsonPathSelector {
+    if (this.peek() === '*') {
+      this.pos++;
+      return { type: 'wildcard' };
+    }
+
+    const name = this.match(DOT_NAME);
+    if (!name) {
+      throw this.error("Expected a member name or '*'");
+    }
+    return { type: 'name', name, dotted: true };
+  }
+
+  private parseBracket(): JsonPathSelector[] {
+    this.expect('[');
+    const selectors: JsonPathSelector[] = [];
+
+    for (;;) {
+      this.skipBlank();
+      selectors.push(this.parseSelector());
+      this.skipBlank();
+
+      if (this.peek() === ']') {
+        this.pos++;
+        return selectors;
+      }
+      this.expect(',');
+    }
+  }
+
+  private parseSelector(): JsonPathSelector {
+    const char = this.peek();
+
+    if (char === "'" || char === '"') {
+      return { type: 'name', name: this.parseString(), dotted: false };
+    }
+
+    if (char === '*') {
+      this.pos++;
+      return { type: 'wildcard' };
+    }
+
+    if (char === '?') {
+      this.pos++;
+      return { type: 'filter', expression: this.parseOr() };
+    }
+
+    const start = this.parseOptionalInteger();
+    this.skipBlank();
+    if (this.peek() !== ':') {
+      if (start === undefined) {
+        throw this.error('Expected a name, index, slice, wildcard or filter');
+      }
+      return { type: 'index', index: start };
+    }
+
+    this.pos++;
+    this.skipBlank();
+    const end = this.parseOptionalInteger();
+    this.skipBlank();
+
+    let step: number | undefined;
+    if (this.peek() === ':') {
+      this.pos++;
+      this.skipBlank();
+      step = this.parseOptionalInteger();
+    }
+
+    return { type: 'slice', start, end, step };
+  }
+
+  private parseOptionalInteger(): number | undefined {
+    const pos = this.pos;
+    const text = this.match(INTEGER);
+    if (!text) return undefined;
+
+    // RFC 9535 integers have no leading zeros and no `-0`
+    if (/^-?0\d/.test(text) || text === '-0') {
+      throw new JsonPathError(`Invalid integer: ${text}`, pos);
+    }
+    const value = Number(text);
+    if (!Number.isSafeInteger(value)) {
+      throw new JsonPathError(`Integer out of range: ${text}`, pos);
+    }
+    return value;
+  }
+
+  private parseOr(): FilterNode {
+    let left = this.parseAnd();
+    while (this.skipBlank(), this.source.startsWith('||', this.pos)) {
+      this.pos += 2;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterNode {
+    let left = this.parseNot();
+    while (this.skipBlank(), this.source.startsWith('&&', this.pos)) {
+      this.pos += 2;
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterNode {
+    this.skipBlank();
+    if (this.peek() === '!' && this.peek(1) !== '=') {
+      this.pos++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterNode {
+    this.skipBlank();
+
+    if (this.peek() === '(') {
+      this.pos++;
+      const expression = this.parseOr();
+      this.skipBlank();
+      this.expect(')');
+      return expression;
+    }
+
+    const pos = this.pos;
+    const left = this.parseOperand();
+    this.skipBlank();
+
+    const operator = COMPARISON_OPERATORS.find(op => this.source.startsWith(op, this.pos));
+    if (operator) {
+      this.pos += operator.length;
+      this.skipBlank();
+      const rightPos = this.pos;
+      const right = this.parseOperand();
+      this.assertValueOperand(left, pos);
+      this.assertValueOperand(right, rightPos);
+      return { type: 'compare', operator, left, right };
+    }
+
+    if (left.type === 'literal') {
+      throw new JsonPathError('A literal must be part of a comparison', pos);
+    }
+    if (left.type === 'function' && !LOGICAL_FUNCTIONS.includes(left.name)) {
+      throw new JsonPathError(`${left.name}() produces a value and must be part of a comparison`, pos);
+    }
+    return { type: 'test', operand: left };
+  }
+
+  // Operands that stand for a single value: literals, singular queries and
+  // functions producing values
+  private assertValueOperand(operand: FilterOperand, pos: number): void {
+    if (operand.type === 'query' && !isSingular(operand.query)) {
+      throw new JsonPathError('Only singular queries such as @.price can be compared or passed as values', pos);
+    }
+    if (operand.type === 'function' && LOGICAL_FUNCTIONS.includes(operand.name)) {
+      throw new JsonPathError(`${operand.name}() can only be used as a test`, pos);
+    }
+  }
+
+  private parseOperand(): FilterOperand {
+    const char = this.peek();
+
+    if (char === '$' || char === '@') {
+      return { type: 'query', query: this.parseQuery() };
+    }
+
+    if (char === "'" || char === '"') {
+      return { type: 'literal', value: this.parseString() };
+    }
+
+    const pos = this.pos;
+    const number = this.match(NUMBER);
+    if (number) {
+      return { type: 'literal', value: Number(number) };
+    }
+
+    const name = this.match(IDENTIFIER);
+    if (!name) {
+      throw this.error('Expected a query, literal or function call');
+    }
+
+    if (Object.prototype.hasOwnProperty.call(KEYWORDS, name)) {
+      return { type: 'literal', value: KEYWORDS[name] };
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(FILTER_FUNCTIONS, name)) {
+      throw new JsonPathError(`Unknown function '${name}'`, pos);
+    }
+
+    this.expect('(');
+    const args: FilterOperand[] = [];
+    const argPositions: number[] = [];
+    this.skipBlank();
+    if (this.peek() !== ')') {
+      for (;;) {
+        this.skipBlank();
+        argPositions.push(this.pos);
+        args.push(this.parseOperand());
+        this.skipBlank();
+        if (this.peek() !== ',') break;
+        this.pos++;
+      }
+    }
+    this.expect(')');
+
+    if (args.length !== FILTER_FUNCTIONS[name]) {
+      throw new JsonPathError(`${name}() expects ${FILTER_FUNCTIONS[name]} argument(s)`, pos);
+    }
+    if (name === 'count' || name === 'value') {
+      if (args[0].type !== 'query') {
+        throw new JsonPathError(`${name}() expects a query argument`, pos);
+      }
+    } else {
+      args.forEach((arg, i) => this.assertValueOperand(arg, argPositions[i]));
+    }
+
+    return { type: 'function', name, args };
+  }
+
+  private parseString(): string {
+    const quote = this.source[this.pos];
+    const start = this.pos;
+    this.pos++;
+    let value = '';
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (char === quote) {
+        this.pos++;
+        return value;
+      }
+
+      if (char === '\\') {
+        const escape = this.source[this.pos + 1];
+        if (escape === 'u') {
+          const hex = this.source.slice(this.pos + 2, this.pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+            throw new JsonPathError('Invalid unicode escape', this.pos);
+          }
+          value += String.fromCharCode(parseInt(hex, 16));
+          this.pos += 6;
+          continue;
+        }
+        if (!Object.prototype.hasOwnProperty.call(ESCAPES, escape)) {
+          throw new JsonPathError(`Invalid escape '\\${escape ?? ''}'`, this.pos);
+        }
+        value += ESCAPES[escape];
+        this.pos += 2;
+        continue;
+      }
+
+      value += char;
+      this.pos++;
+    }
+
+    throw new JsonPathError('Unterminated string', start);
+  }
+
+  private match(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.source);
+    if (!match) return null;
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipBlank(): void {
+    while (/[ \t\n\r]/.test(this.peek())) {
+      this.pos++;
+    }
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      throw this.error(`Expected '${char}'`);
+    }
+    this.pos++;
+  }
+
+  private error(message: string): JsonPathError {
+    return this.pos >= this.source.length
+      ? new JsonPathError(`${message} but reached end of path`, this.pos)
+      : new JsonPathError(message, this.pos);
+  }
+}
+
+// Parsed queries are cached since the same output paths run on every execution
+const queryCache = new Map<string, JsonPathQuery>();
+const MAX_CACHE_SIZE = 1000;
+
+export function parseJsonPath(path: string): JsonPathQuery {
+  const cached = queryCache.get(path);
+  if (cached) return cached;
+
+  if (path.length > MAX_PATH_LENGTH) {
+    throw new JsonPathError(`JSONPath exceeds ${MAX_PATH_LENGTH} characters`);
+  }
+
+  const query = new Parser(path).parse();
+
+  if (queryCache.size >= MAX_CACHE_SIZE) {
+    queryCache.clear();
+  }
+  queryCache.set(path, query);
+  return query;
+}
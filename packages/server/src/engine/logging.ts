@@ -0,0 +1,61 @@
+import type { BlockExecutionRequest, BlockExecutionResponse, BlockExecutionResult } from '@codeblock-bff/shared';
+
+// Bodies larger than this are stored as a truncated string preview
+const MAX_BODY_BYTES = parseInt(process.env.LOG_MAX_BODY_BYTES || '16384', 10);
+
+export const REDACTED = '[REDACTED]';
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+export function redactHeaders(headers: Record<string, string> | undefined): Record<string, string> | undefined {
+  if (!headers) return undefined;
+
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = SENSITIVE_HEADERS.includes(name.toLowerCase()) ? REDACTED : value;
+  }
+  return result;
+}
+
+function serialize(body: unknown): string {
+  if (typeof body === 'string') return body;
+  try {
+    return JSON.stringify(body) ?? '';
+  } catch {
+    return String(body);
+  }
+}
+
+// Keeps small bodies as-is; larger ones become a preview of the serialized body
+export function truncateBody(body: unknown, maxBytes = MAX_BODY_BYTES): { body?: unknown; truncated?: boolean; size?: number } {
+  if (body === undefined || body === null) return { body };
+
+  const serialized = serialize(body);
+  const size = Buffer.byteLength(serialized);
+  if (size <= maxBytes) return { body };
+
+  // Cut on bytes, then drop a possibly split trailing character
+  const preview = Buffer.from(serialized).subarray(0, maxBytes).toString('utf8').replace(/�$/, '');
+  return { body: preview, truncated: true, size };
+}
+
+export function toLoggedRequest(request: BlockExecutionRequest | undefined): BlockExecutionRequest | undefined {
+  if (!request) return undefined;
+
+  return {
+    url: request.url,
+    method: request.method,
+    headers: redactHeaders(request.headers),
+    ...truncateBody(request.body),
+  };
+}
+
+export function toLoggedResponse(result: BlockExecutionResult): BlockExecutionResponse | undefined {
+  const { rawResponse } = result;
+  if (!rawResponse) return undefined;
+
+  return {
+    statusCode: rawResponse.statusCode,
+    headers: redactHeaders(rawResponse.headers),
+    ...truncateBody(rawResponse.data),
+  };
+}
@@ -0,0 +1,268 @@
+import type { Block, BlockExecutionResult, FlowBlock, MockFixture } from '@codeblock-bff/shared';
+import { cacheService } from '../config/redis';
+import { extractJsonPath } from './jsonpath';
+import { isPlainObject } from './path';
+
+type Schema = Record<string, unknown>;
+
+interface MediaTypeObject {
+  schema?: Schema;
+  example?: unknown;
+  examples?: Record<string, { value?: unknown }>;
+}
+
+interface ResponseObject {
+  $ref?: string;
+  content?: Record<string, MediaTypeObject>;
+  // Swagger 2.0
+  schema?: Schema;
+  examples?: Record<string, unknown>;
+}
+
+interface OperationObject {
+  operationId?: string;
+  responses?: Record<string, ResponseObject>;
+}
+
+interface OpenApiDocument {
+  paths?: Record<string, Record<string, OperationObject>>;
+}
+
+const MAX_MOCK_DELAY_MS = 60000;
+const SPEC_TIMEOUT_MS = 10000;
+
+// Schemas can be recursive; deeper levels are left out of generated fixtures
+const MAX_SCHEMA_DEPTH = 8;
+
+const STRING_FORMATS: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00Z',
+  date: '2024-01-01',
+  time: '00:00:00',
+  email: 'user@example.com',
+  uuid: '00000000-0000-0000-0000-000000000000',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+};
+
+// Blocks that call out of the BFF; everything else runs for real in test runs
+export function shouldMockBlock(block: Block, flowBlock: FlowBlock): boolean {
+  if (block.type !== 'api_call' && block.type !== 'custom') return false;
+  return flowBlock.mock?.mode !== 'real';
+}
+
+// Returns a message describing the first problem with a fixture, or null
+export function validateMockFixture(fixture: MockFixture): string | null {
+  if (!isPlainObject(fixture)) return 'must be an object';
+
+  const { statusCode, headers, delayMs } = fixture as MockFixture;
+  if (statusCode !== undefined && (!Number.isInteger(statusCode) || statusCode < 100 || statusCode > 599)) {
+    return 'statusCode must be an HTTP status code';
+  }
+  if (headers !== undefined && (!isPlainObject(headers) || Object.values(headers).some(value => typeof value !== 'string'))) {
+    return 'headers must map names to strings';
+  }
+  if (delayMs !== undefined && (typeof delayMs !== 'number' || delayMs < 0 || delayMs > MAX_MOCK_DELAY_MS)) {
+    return `delayMs must be between 0 and ${MAX_MOCK_DELAY_MS}`;
+  }
+  return null;
+}
+
+// Checks the mock settings of every block in a flow, including loop bodies
+export function validateFlowMocks(blocks: FlowBlock[]): string | null {
+  for (const flowBlock of blocks) {
+    const { mock } = flowBlock;
+    if (mock) {
+      if (mock.mode && mock.mode !== 'mock' && mock.mode !== 'real') {
+        return `blocks.${flowBlock.id}.mock.mode must be 'mock' or 'real'`;
+      }
+      const error = mock.fixture ? validateMockFixture(mock.fixture) : null;
+      if (error) return `blocks.${flowBlock.id}.mock.fixture: ${error}`;
+    }
+    if (flowBlock.loop?.blocks) {
+      const error = validateFlowMocks(flowBlock.loop.blocks);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+// Fixture precedence: the flow's, then the block's, then one generated from the spec
+export async function resolveMockFixture(block: Block, flowBlock: FlowBlock): Promise<MockFixture> {
+  if (flowBlock.mock?.fixture) return flowBlock.mock.fixture;
+  if (block.mock) return block.mock;
+
+  try {
+    const generated = await generateFixtureFromSpec(block);
+    if (generated) return generated;
+  } catch (error) {
+    console.warn(`Could not generate a mock fixture for block ${block._id}:`, error);
+  }
+  return { statusCode: 200, body: {} };
+}
+
+// Answers a block from its fixture, running the block's output extraction on
+// the fixture body just like on a real response
+export async function executeMock(block: Block, flowBlock: FlowBlock, signal?: AbortSignal): Promise<BlockExecutionResult> {
+  const fixture = await resolveMockFixture(block, flowBlock);
+  const statusCode = fixture.statusCode ?? 200;
+  const ok = statusCode >= 200 && statusCode < 300;
+
+  if (fixture.delayMs) {
+    await new Promise(resolve => setTimeout(resolve, fixture.delayMs));
+    if (signal?.aborted) {
+      return { status: 'cancelled', mocked: true, error: { message: 'Flow execution cancelled', code: 'CANCELLED' } };
+    }
+  }
+
+  try {
+    const outputs: Record<string, unknown> = {};
+    for (const output of block.outputs) {
+      outputs[output.name] = extractJsonPath(fixture.body, output.path);
+    }
+
+    return {
+      status: ok ? 'success' : 'failure',
+      outputs,
+      mocked: true,
+      rawResponse: { statusCode, data: fixture.body, headers: fixture.headers || {} },
+      error: ok ? undefined : { message: `Upstream responded with status ${statusCode}`, code: 'HTTP_ERROR' },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Mock fixture could not be read';
+    return { status: 'failure', mocked: true, error: { message, code: 'PARSE_ERROR' } };
+  }
+}
+
+async function loadOpenApiSpec(url: string): Promise<OpenApiDocument | null> {
+  const cached = await cacheService.getOpenApiSpec(url) as OpenApiDocument | null;
+  if (cached) return cached;
+
+  const response = await fetch(url, { headers: { 'Accept': 'application/json' }, signal: AbortSignal.timeout(SPEC_TIMEOUT_MS) });
+  if (!response.ok) return null;
+
+  // YAML specs are parsed by the web client only
+  const spec = await response.json().catch(() => null) as OpenApiDocument | null;
+  if (spec) {
+    await cacheService.setOpenApiSpec(url, spec);
+  }
+  return spec;
+}
+
+// Fixture from the first documented 2xx response of the block's operation,
+// preferring examples over values generated from the schema
+export async function generateFixtureFromSpec(block: Block): Promise<MockFixture | null> {
+  const { source } = block;
+  if (!source.openApiUrl) return null;
+
+  const spec = await loadOpenApiSpec(source.openApiUrl);
+  if (!spec?.paths) return null;
+
+  const method = source.method.toLowerCase();
+  let operation: OperationObject | undefined = spec.paths[source.path]?.[method];
+  if (!operation) {
+    operation = Object.values(spec.paths)
+      .flatMap(methods => Object.values(methods))
+      .find(op => op.operationId === source.operationId);
+  }
+  if (!operation?.responses) return null;
+
+  const codes = Object.keys(operation.responses).filter(code => /^2(\d\d|XX)$/i.test(code)).sort();
+  if (codes.length === 0) return null;
+
+  const statusCode = /^\d+$/.test(codes[0]) ? Number(codes[0]) : 200;
+  const response = resolveRef(spec, operation.responses[codes[0]]) as ResponseObject;
+  if (statusCode === 204 || !response) return { statusCode, body: null };
+
+  // Swagger 2.0 keeps the schema and examples on the response itself
+  if (response.schema || response.examples) {
+    const example = response.examples?.['application/json'];
+    return { statusCode, body: example !== undefined ? example : generateFromSchema(spec, response.schema) };
+  }
+
+  const content = response.content || {};
+  const mediaType = Object.keys(content).find(type => type.includes('json')) || Object.keys(content)[0];
+  if (!mediaType) return { statusCode, body: null };
+
+  const media = content[mediaType];
+  const headers = { 'content-type': mediaType };
+  if (media.example !== undefined) return { statusCode, headers, body: media.example };
+
+  const firstExample = Object.values(media.examples || {})[0];
+  if (firstExample) {
+    const example = resolveRef(spec, firstExample) as { value?: unknown };
+    if (example?.value !== undefined) return { statusCode, headers, body: example.value };
+  }
+
+  return { statusCode, headers, body: generateFromSchema(spec, media.schema) };
+}
+
+// Resolves local `#/...` references; anything else resolves to undefined
+function resolveRef(spec: unknown, value: unknown, seen = new Set<string>()): unknown {
+  if (!isPlainObject(value) || typeof value.$ref !== 'string') return value;
+
+  const ref = value.$ref;
+  if (!ref.startsWith('#/') || seen.has(ref)) return undefined;
+  seen.add(ref);
+
+  let target: unknown = spec;
+  for (const token of ref.slice(2).split('/')) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isPlainObject(target) && Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+  }
+  return resolveRef(spec, target, seen);
+}
+
+export function generateFromSchema(spec: unknown, schemaOrRef: unknown, depth = 0): unknown {
+  const schema = resolveRef(spec, schemaOrRef);
+  if (!isPlainObject(schema) || depth > MAX_SCHEMA_DEPTH) return null;
+
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map(part => generateFromSchema(spec, part, depth + 1));
+    return parts.every(isPlainObject) ? Object.assign({}, ...parts) : parts[0] ?? null;
+  }
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return generateFromSchema(spec, variants[0], depth + 1);
+  }
+
+  // OpenAPI 3.1 allows a list of types, e.g. ['string', 'null']
+  const type = Array.isArray(schema.type)
+    ? schema.type.find(item => item !== 'null')
+    : schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      const properties = isPlainObject(schema.properties) ? schema.properties : {};
+      for (const [name, property] of Object.entries(properties)) {
+        Object.defineProperty(result, name, {
+          value: generateFromSchema(spec, property, depth + 1),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      return result;
+    }
+    case 'array':
+      return schema.items ? [generateFromSchema(spec, schema.items, depth + 1)] : [];
+    case 'string':
+      return STRING_FORMATS[String(schema.format)] ?? 'string';
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,50 @@
+// Dotted path helpers (e.g. `user.orders`) shared by transform and aggregate blocks
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function splitPath(path?: string): string[] {
+  const keys = path ? path.split('.').filter(Boolean) : [];
+  if (keys.some(isUnsafeKey)) {
+    throw new Error(`Invalid path: ${path}`);
+  }
+  return keys;
+}
+
+// Rejects keys from a template that would reach an object's prototype
+export function assertSafeKey(key: string): string {
+  if (isUnsafeKey(key)) {
+    throw new Error(`Invalid key: ${key}`);
+  }
+  return key;
+}
+
+export function isUnsafeKey(key: string): boolean {
+  return UNSAFE_KEYS.includes(key);
+}
+
+// Plain assignment of a `__proto__` key from upstream data would replace the
+// object's prototype; defining the property keeps it an ordinary own key
+export function setOwn(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+// Object.assign, without the prototype problem
+export function assignOwn(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+  for (const [key, value] of Object.entries(source)) {
+    setOwn(target, key, value);
+  }
+  return target;
+}
+
+export function getPath(data: unknown, path?: string): unknown {
+  let current = data;
+  for (const key of splitPath(path)) {
+    if (!isPlainObject(current) && !Array.isArray(current)) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
@@ -0,0 +1,159 @@
+import type { QueryParameterStyle, RequestContentType } from '@codeblock-bff/shared';
+import { isPlainObject } from './path';
+import { isBinaryContent, getPassthroughBytes } from './decode';
+
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+// Splits an RFC 6901 JSON pointer into unescaped reference tokens
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${pointer}": must start with '/'`);
+  }
+
+  const tokens = pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (tokens.some(token => UNSAFE_KEYS.includes(token))) {
+    throw new Error(`Invalid JSON pointer "${pointer}"`);
+  }
+  return tokens;
+}
+
+// Sets value at pointer, creating objects (or arrays, for numeric and `-`
+// tokens) along the way. Returns the updated document; the one given is left
+// unchanged, since objects and arrays along the path are copied before writing.
+export function setJsonPointer(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parseJsonPointer(pointer);
+  if (tokens.length === 0) return value;
+
+  const isIndex = (token: string) => token === '-' || /^(0|[1-9]\d*)$/.test(token);
+  const copyOrCreate = (existing: unknown, token: string) => {
+    if (Array.isArray(existing)) return [...existing];
+    if (isPlainObject(existing)) return { ...existing };
+    return isIndex(token) ? [] : {};
+  };
+  const root = document === null || document === undefined || Array.isArray(document) || isPlainObject(document)
+    ? copyOrCreate(document, tokens[0])
+    : document;
+  let current = root as Record<string, unknown> | unknown[];
+
+  tokens.forEach((token, i) => {
+    const last = i === tokens.length - 1;
+
+    if (Array.isArray(current)) {
+      if (!isIndex(token)) {
+        throw new Error(`JSON pointer "${pointer}" uses "${token}" as an array index`);
+      }
+      const index = token === '-' ? current.length : Number(token);
+      current[index] = last ? value : copyOrCreate(current[index], tokens[i + 1]);
+      current = current[index] as Record<string, unknown> | unknown[];
+      return;
+    }
+
+    if (!isPlainObject(current)) {
+      throw new Error(`JSON pointer "${pointer}" goes through a non-object value`);
+    }
+    current[token] = last ? value : copyOrCreate(current[token], tokens[i + 1]);
+    current = current[token] as Record<string, unknown> | unknown[];
+  });
+
+  return root;
+}
+
+function toParameterString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Query parameter pairs following the OpenAPI `style`/`explode` rules, e.g. for
+// ids=[1,2]: form+explode `ids=1&ids=2`, form `ids=1,2`, pipeDelimited `ids=1|2`;
+// for filter={a:1}: form+explode `a=1`, deepObject `filter[a]=1`
+export function serializeQueryParameter(
+  name: string,
+  value: unknown,
+  style: QueryParameterStyle = 'form',
+  explode: boolean = style === 'form' || style === 'deepObject'
+): Array<[string, string]> {
+  if (Array.isArray(value)) {
+    if (explode) {
+      return value.map(item => [name, toParameterString(item)]);
+    }
+    const separator = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ',';
+    return [[name, value.map(toParameterString).join(separator)]];
+  }
+
+  if (isPlainObject(value)) {
+    if (style === 'deepObject') {
+      return Object.entries(value).flatMap(([key, item]) =>
+        isPlainObject(item)
+          ? serializeQueryParameter(`${name}[${key}]`, item, 'deepObject')
+          : [[`${name}[${key}]`, toParameterString(item)] as [string, string]]
+      );
+    }
+    if (explode) {
+      return Object.entries(value).map(([key, item]) => [key, toParameterString(item)]);
+    }
+    return [[name, Object.entries(value).flatMap(([key, item]) => [key, toParameterString(item)]).join(',')]];
+  }
+
+  return [[name, toParameterString(value)]];
+}
+
+// OpenAPI `simple` style, used for path and header parameters
+export function serializeSimpleParameter(value: unknown): string {
+  if (Array.isArray(value)) return value.map(toParameterString).join(',');
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([key, item]) => [key, toParameterString(item)]).join(',');
+  }
+  return toParameterString(value);
+}
+
+function toFormPart(value: unknown): string | Blob {
+  const bytes = getPassthroughBytes(value);
+  if (bytes) {
+    return new Blob([bytes], { type: (value as { contentType: string }).contentType });
+  }
+  if (isBinaryContent(value) && value.data !== undefined) {
+    return new Blob([Buffer.from(value.data, 'base64')], { type: value.contentType });
+  }
+  if (isPlainObject(value) || Array.isArray(value)) {
+    return new Blob([JSON.stringify(value)], { type: 'application/json' });
+  }
+  return toParameterString(value);
+}
+
+// Encodes the request body; the returned content type is undefined when fetch
+// must set it itself (multipart boundaries)
+export function encodeRequestBody(
+  body: unknown,
+  contentType: RequestContentType = 'application/json'
+): { body: string | URLSearchParams | FormData; contentType?: string } {
+  if (contentType === 'application/json') {
+    return { body: JSON.stringify(body), contentType };
+  }
+
+  if (!isPlainObject(body)) {
+    throw new Error(`A ${contentType} request body must be an object`);
+  }
+
+  if (contentType === 'application/x-www-form-urlencoded') {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(body)) {
+      // Arrays repeat the field; objects are sent as JSON
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach(item => params.append(name, toParameterString(item)));
+    }
+    return { body: params, contentType };
+  }
+
+  const form = new FormData();
+  for (const [name, value] of Object.entries(body)) {
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      const part = toFormPart(item);
+      if (typeof part === 'string') form.append(name, part);
+      else form.append(name, part, isBinaryContent(item) ? name : undefined);
+    }
+  }
+  return { body: form };
+}
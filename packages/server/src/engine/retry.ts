@@ -0,0 +1,91 @@
+import type { BlockExecutionResult, BlockExecutionAttempt, FlowBlockConfig, RetryPolicy } from '@codeblock-bff/shared';
+
+const DEFAULT_RETRY_ON_STATUS = [408, 429, 500, 502, 503, 504];
+const DEFAULT_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 10000;
+const MAX_ATTEMPTS = 10;
+
+// Error codes set by the API call executor for failures that never got a response
+const NETWORK_ERROR_CODES = ['NETWORK_ERROR', 'TIMEOUT'];
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'allowNonIdempotent'>>;
+
+// Merges the block's retry policy with defaults. Non-GET requests are never
+// retried unless the policy explicitly allows it, since they may not be idempotent.
+export function resolveRetryPolicy(config: FlowBlockConfig | undefined, method: string): ResolvedRetryPolicy {
+  const policy = config?.retry || {};
+  const idempotent = method.toUpperCase() === 'GET' || policy.allowNonIdempotent === true;
+  const attempts = idempotent ? policy.attempts ?? config?.retryCount ?? 0 : 0;
+
+  return {
+    attempts: Math.min(Math.max(attempts, 0), MAX_ATTEMPTS),
+    backoff: policy.backoff || 'exponential',
+    delayMs: policy.delayMs ?? DEFAULT_DELAY_MS,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    jitter: policy.jitter ?? true,
+    retryOnStatus: policy.retryOnStatus || DEFAULT_RETRY_ON_STATUS,
+    retryOnNetworkError: policy.retryOnNetworkError ?? true,
+  };
+}
+
+// Delay before the given retry (1-based). Jitter picks a random delay up to the computed one.
+export function getRetryDelay(policy: ResolvedRetryPolicy, retry: number): number {
+  const base = policy.backoff === 'exponential'
+    ? policy.delayMs * 2 ** (retry - 1)
+    : policy.delayMs;
+  const delay = Math.min(base, policy.maxDelayMs);
+  return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+}
+
+export function isRetryable(policy: ResolvedRetryPolicy, result: BlockExecutionResult): boolean {
+  if (result.status === 'success') return false;
+
+  if (result.rawResponse) {
+    return policy.retryOnStatus.includes(result.rawResponse.statusCode);
+  }
+
+  return policy.retryOnNetworkError && NETWORK_ERROR_CODES.includes(result.error?.code || '');
+}
+
+// Resolves after ms, or early when the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Calls execute until it succeeds, fails with a non-retryable result, runs out
+// of attempts or the signal aborts. Every attempt is recorded on the returned result.
+export async function executeWithRetry(
+  policy: ResolvedRetryPolicy,
+  execute: () => Promise<BlockExecutionResult>,
+  signal?: AbortSignal
+): Promise<BlockExecutionResult> {
+  const attempts: BlockExecutionAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const attemptStart = Date.now();
+    const result = await execute();
+
+    attempts.push({
+      attempt,
+      status: result.status === 'success' ? 'success' : 'failure',
+      statusCode: result.rawResponse?.statusCode,
+      error: result.error,
+      durationMs: Date.now() - attemptStart,
+    });
+
+    if (attempt > policy.attempts || !isRetryable(policy, result) || signal?.aborted) {
+      return { ...result, attempts };
+    }
+
+    await sleep(getRetryDelay(policy, attempt), signal);
+    if (signal?.aborted) {
+      return { ...result, attempts };
+    }
+  }
+}
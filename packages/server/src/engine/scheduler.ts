@@ -0,0 +1,126 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase, COLLECTIONS } from '../config/database';
+import { cacheService } from '../config/redis';
+import { getNextRuns, isValidTimeZone, parseCron } from './cron';
+import { enqueueJob } from './jobs';
+import type { Flow, Schedule } from '@codeblock-bff/shared';
+
+const SCHEDULER_INTERVAL_SECONDS = parseInt(process.env.SCHEDULER_INTERVAL_SECONDS || '15', 10);
+
+// Only the instance holding this lock fires schedules. The lease is renewed
+// every tick, so another instance takes over a few ticks after the leader dies.
+const LEADER_KEY = 'scheduler:leader';
+const LEADER_LEASE_SECONDS = SCHEDULER_INTERVAL_SECONDS * 3;
+// Keeps a run from firing twice when leadership changes in the middle of a tick
+const RUN_LOCK_SECONDS = 86400;
+
+const instanceId = crypto.randomUUID();
+
+// Returns a message describing the first problem with a cron expression and timezone, or null
+export function validateCronSchedule(cron: unknown, timezone: unknown): string | null {
+  if (typeof cron !== 'string' || cron.trim() === '') {
+    return 'cron must be a cron expression';
+  }
+  try {
+    parseCron(cron);
+  } catch (error) {
+    return `cron: ${error instanceof Error ? error.message : 'invalid expression'}`;
+  }
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    return 'timezone must be an IANA timezone name, e.g. Asia/Seoul';
+  }
+  return null;
+}
+
+// Inputs a scheduled run gets: the flow's defaults overridden by the schedule's values
+export function resolveScheduleInputs(flow: Flow, inputs: Record<string, unknown>): Record<string, unknown> {
+  const resolved: Record<string, unknown> = {};
+  for (const input of flow.inputs) {
+    if (input.defaultValue !== undefined) resolved[input.name] = input.defaultValue;
+  }
+  return { ...resolved, ...inputs };
+}
+
+// Returns a message naming the first required input a scheduled run would lack, or null
+export function validateScheduleInputs(flow: Flow, inputs: Record<string, unknown>): string | null {
+  const resolved = resolveScheduleInputs(flow, inputs);
+  const missing = flow.inputs.find(input => input.required && resolved[input.name] === undefined);
+  return missing ? `Missing required input: ${missing.name}` : null;
+}
+
+// Upcoming run times from now; none while the schedule is disabled
+export function getScheduleNextRuns(schedule: Schedule, count: number): Date[] {
+  if (!schedule.enabled) return [];
+  return getNextRuns(schedule.cron, schedule.timezone, new Date(), count);
+}
+
+// The run that came due since the last one (or since creation), or null.
+// Runs missed while no instance was up are collapsed into this one.
+function getDueRun(schedule: Schedule, now: Date): Date | null {
+  const after = new Date(schedule.lastRunAt ?? schedule.createdAt ?? now);
+  const [next] = getNextRuns(schedule.cron, schedule.timezone, after);
+  return next && next <= now ? next : null;
+}
+
+// Queues the run as an async job. Runs of flows that are no longer published,
+// or no longer get all their required inputs, are skipped.
+async function fireSchedule(schedule: Schedule, due: Date): Promise<void> {
+  const scheduleId = String(schedule._id);
+  if (!await cacheService.acquireLock(`schedule:${scheduleId}:run:${due.getTime()}`, RUN_LOCK_SECONDS)) return;
+
+  const db = getDatabase();
+  const flow = await db.collection(COLLECTIONS.FLOWS).findOne({ _id: new ObjectId(schedule.flowId) }) as Flow | null;
+  const problem = !flow || flow.status !== 'published'
+    ? 'flow not found or not published'
+    : validateScheduleInputs(flow, schedule.inputs);
+
+  const update: Partial<Schedule> = { lastRunAt: new Date() };
+  if (flow && !problem) {
+    const inputs = resolveScheduleInputs(flow, schedule.inputs);
+    const job = await enqueueJob(flow, false, {
+      inputs,
+      headers: {},
+      request: { inputs },
+      trigger: { type: 'schedule', scheduleId },
+    });
+    update.lastJobId = job.id;
+  } else {
+    console.warn(`Skipped run of schedule ${scheduleId}: ${problem}`);
+  }
+
+  await db.collection(COLLECTIONS.SCHEDULES).updateOne({ _id: new ObjectId(scheduleId) }, { $set: update });
+}
+
+async function runSchedulerTick(): Promise<void> {
+  const isLeader = await cacheService.renewLock(LEADER_KEY, LEADER_LEASE_SECONDS, instanceId)
+    || await cacheService.acquireLock(LEADER_KEY, LEADER_LEASE_SECONDS, instanceId);
+  if (!isLeader) return;
+
+  const now = new Date();
+  const collection = getDatabase().collection<Schedule>(COLLECTIONS.SCHEDULES);
+  const schedules = await collection.find({ enabled: true }).toArray();
+
+  for (const schedule of schedules) {
+    try {
+      const due = getDueRun(schedule, now);
+      if (due) await fireSchedule(schedule, due);
+    } catch (error) {
+      console.error(`Failed to run schedule ${schedule._id}:`, error);
+    }
+  }
+}
+
+export function startScheduler(): void {
+  pollSchedules();
+}
+
+async function pollSchedules(): Promise<void> {
+  for (;;) {
+    try {
+      await runSchedulerTick();
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    }
+    await Bun.sleep(SCHEDULER_INTERVAL_SECONDS * 1000);
+  }
+}
@@ -0,0 +1,226 @@
+import type { TransformTemplate, TransformStep, TransformCondition } from '@codeblock-bff/shared';
+import { evaluateExpression, parseExpression } from './expression';
+import { isPlainObject, splitPath, getPath, assertSafeKey, isUnsafeKey, setOwn, assignOwn } from './path';
+
+const TRANSFORM_OPS: TransformStep['op'][] = ['pick', 'omit', 'rename', 'defaults', 'set', 'map', 'filter', 'flatten', 'merge'];
+const CONDITION_OPERATORS: TransformCondition['operator'][] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'exists'];
+
+type Document = Record<string, unknown>;
+
+function setPath(data: Document, path: string, value: unknown): Document {
+  const keys = splitPath(path);
+  if (keys.length === 0) {
+    return isPlainObject(value) ? value : data;
+  }
+
+  let current: Document = data;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Document;
+  }
+  current[keys[keys.length - 1]] = value;
+  return data;
+}
+
+// Applies fn to the value at path; arrays are handled element by element
+function updateAt(data: Document, path: string | undefined, fn: (value: Document) => Document): Document {
+  const target = getPath(data, path);
+  const apply = (value: unknown) => (isPlainObject(value) ? fn(value) : value);
+  const updated = Array.isArray(target) ? target.map(apply) : apply(target);
+  return path ? setPath(data, path, updated) : (updated as Document);
+}
+
+function matchesCondition(item: unknown, condition: TransformCondition): boolean {
+  const value = getPath(item, condition.field);
+
+  switch (condition.operator) {
+    case 'eq':
+      return value === condition.value;
+    case 'ne':
+      return value !== condition.value;
+    case 'gt':
+      return (value as number) > (condition.value as number);
+    case 'gte':
+      return (value as number) >= (condition.value as number);
+    case 'lt':
+      return (value as number) < (condition.value as number);
+    case 'lte':
+      return (value as number) <= (condition.value as number);
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.includes(value);
+    case 'contains':
+      if (typeof value === 'string') return value.includes(String(condition.value));
+      return Array.isArray(value) && value.includes(condition.value);
+    case 'exists':
+      return (value !== undefined && value !== null) === (condition.value ?? true);
+  }
+}
+
+function applyStep(data: Document, step: TransformStep): Document {
+  switch (step.op) {
+    case 'pick':
+      return updateAt(data, step.path, value => {
+        const result: Document = {};
+        for (const field of step.fields) {
+          if (Object.prototype.hasOwnProperty.call(value, field)) result[field] = value[field];
+        }
+        return result;
+      });
+
+    case 'omit':
+      return updateAt(data, step.path, value => {
+        const result: Document = { ...value };
+        for (const field of step.fields) {
+          delete result[field];
+        }
+        return result;
+      });
+
+    case 'rename':
+      return updateAt(data, step.path, value => {
+        const result: Document = {};
+        for (const [key, fieldValue] of Object.entries(value)) {
+          const renamed = Object.prototype.hasOwnProperty.call(step.fields, key) ? assertSafeKey(step.fields[key]) : key;
+          setOwn(result, renamed, fieldValue);
+        }
+        return result;
+      });
+
+    case 'defaults':
+      return updateAt(data, step.path, value => {
+        const result: Document = { ...value };
+        for (const [key, defaultValue] of Object.entries(step.values)) {
+          if (result[key] === undefined || result[key] === null) {
+            setOwn(result, assertSafeKey(key), defaultValue);
+          }
+        }
+        return result;
+      });
+
+    case 'set':
+      return setPath(data, step.target, step.from !== undefined ? getPath(data, step.from) : step.value);
+
+    case 'map': {
+      const items = getPath(data, step.path);
+      if (!Array.isArray(items)) return data;
+      return setPath(data, step.path, items.map(item =>
+        isPlainObject(item) ? applySteps(item, step.steps) : item
+      ));
+    }
+
+    case 'filter': {
+      const items = getPath(data, step.path);
+      if (!Array.isArray(items)) return data;
+      return setPath(data, step.path, items.filter((item, index) => {
+        if (step.where && !step.where.every(condition => matchesCondition(item, condition))) {
+          return false;
+        }
+        if (step.expression) {
+          return Boolean(evaluateExpression(step.expression, { item, index }));
+        }
+        return true;
+      }));
+    }
+
+    case 'flatten': {
+      const items = getPath(data, step.path);
+      if (!Array.isArray(items)) return data;
+      return setPath(data, step.path, items.flat(step.depth ?? 1));
+    }
+
+    case 'merge': {
+      const merged: Document = {};
+      for (const source of step.sources) {
+        const value = getPath(data, source);
+        if (isPlainObject(value)) assignOwn(merged, value);
+      }
+      return setPath(data, step.target, merged);
+    }
+  }
+}
+
+function applySteps(data: Document, steps: TransformStep[]): Document {
+  return steps.reduce(applyStep, data);
+}
+
+export function applyTransform(template: TransformTemplate | undefined, inputs: Record<string, unknown>): Document {
+  // Steps mutate the working document, so never touch the caller's inputs
+  const data = structuredClone(inputs);
+  if (!template?.steps?.length) return data;
+  return applySteps(data, template.steps);
+}
+
+// Returns a list of human readable problems; empty when the template is valid
+export function validateTransformTemplate(template: unknown, location = 'transform'): string[] {
+  const errors: string[] = [];
+
+  if (!isPlainObject(template) || !Array.isArray(template.steps)) {
+    return [`${location}.steps must be an array`];
+  }
+
+  template.steps.forEach((raw, index) => {
+    const at = `${location}.steps[${index}]`;
+    if (!isPlainObject(raw)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    const step = raw as TransformStep;
+
+    if (!TRANSFORM_OPS.includes(step.op)) {
+      errors.push(`${at}.op must be one of: ${TRANSFORM_OPS.join(', ')}`);
+      return;
+    }
+
+    switch (step.op) {
+      case 'pick':
+      case 'omit':
+        if (!Array.isArray(step.fields)) errors.push(`${at}.fields must be an array`);
+        break;
+      case 'rename':
+        if (!isPlainObject(step.fields)) errors.push(`${at}.fields must be an object`);
+        else if (Object.values(step.fields).some(name => typeof name !== 'string' || isUnsafeKey(name))) {
+          errors.push(`${at}.fields must map to field names other than __proto__, constructor and prototype`);
+        }
+        break;
+      case 'defaults':
+        if (!isPlainObject(step.values)) errors.push(`${at}.values must be an object`);
+        else if (Object.keys(step.values).some(isUnsafeKey)) {
+          errors.push(`${at}.values must not set __proto__, constructor or prototype`);
+        }
+        break;
+      case 'set':
+        if (!step.target) errors.push(`${at}.target is required`);
+        break;
+      case 'map':
+        if (!step.path) errors.push(`${at}.path is required`);
+        errors.push(...validateTransformTemplate({ steps: step.steps }, at));
+        break;
+      case 'filter':
+        if (!step.path) errors.push(`${at}.path is required`);
+        for (const condition of step.where || []) {
+          if (!CONDITION_OPERATORS.includes(condition.operator)) {
+            errors.push(`${at}.where operator must be one of: ${CONDITION_OPERATORS.join(', ')}`);
+          }
+        }
+        if (step.expression) {
+          try {
+            parseExpression(step.expression);
+          } catch (error) {
+            errors.push(`${at}.expression is invalid: ${(error as Error).message}`);
+          }
+        }
+        break;
+      case 'flatten':
+        if (!step.path) errors.push(`${at}.path is required`);
+        break;
+      case 'merge':
+        if (!Array.isArray(step.sources)) errors.push(`${at}.sources must be an array`);
+        if (!step.target && step.target !== '') errors.push(`${at}.target is required`);
+        break;
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,331 @@
+import type {
+  Block,
+  Flow,
+  FlowBlock,
+  Connection,
+  InputMapping,
+  FlowValidationIssue,
+  FlowValidationResult,
+} from '@codeblock-bff/shared';
+import { parseExpression } from './expression';
+import { getBlockDefinition } from './blocks';
+
+type FlowGraph = Pick<Flow, 'blocks' | 'connections' | 'outputs'>;
+
+interface GraphScope {
+  definitions: Map<string, Block | null>;
+  // Every flow block visible from the current graph, including enclosing loop graphs
+  known: Map<string, FlowBlock>;
+  // Blocks outside the current graph that are guaranteed to have run before it
+  outerUpstream: Set<string>;
+  location: string;
+  issues: FlowValidationIssue[];
+}
+
+// Output names a block exposes at runtime, or null when any name may appear
+function getOutputNames(definition: Block): string[] | null {
+  const declared = (definition.outputs || []).map(output => output.name);
+
+  switch (definition.type) {
+    case 'condition':
+      return ['result', 'value'];
+    case 'loop':
+      return ['results', 'errors', 'count'];
+    case 'aggregate':
+      return declared.length ? declared : ['result'];
+    case 'transform':
+      return declared.length ? declared : null;
+    default:
+      return declared;
+  }
+}
+
+function checkExpression(expression: string | undefined, what: string, scope: GraphScope, extra: Partial<FlowValidationIssue>) {
+  try {
+    parseExpression(expression || '');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid expression';
+    scope.issues.push({ code: 'INVALID_EXPRESSION', message: `${scope.location}${what} has an invalid expression: ${message}`, ...extra });
+  }
+}
+
+// Tarjan's strongly connected components; any component with more than one
+// block, or a block connected to itself, is a cycle
+function findCycles(blockIds: string[], edges: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const next of edges.get(id) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      if (component.length > 1 || (edges.get(id) || []).includes(id)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const id of blockIds) {
+    if (!index.has(id)) visit(id);
+  }
+
+  return cycles;
+}
+
+function getAncestors(blockId: string, reverseEdges: Map<string, string[]>): Set<string> {
+  const ancestors = new Set<string>();
+  const queue = [...(reverseEdges.get(blockId) || [])];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (ancestors.has(current)) continue;
+    ancestors.add(current);
+    queue.push(...(reverseEdges.get(current) || []));
+  }
+  return ancestors;
+}
+
+function checkMappings(
+  mappings: InputMapping[] | undefined,
+  owner: string,
+  blockId: string,
+  upstream: Set<string>,
+  known: Map<string, FlowBlock>,
+  scope: GraphScope
+): void {
+  const { issues, location } = scope;
+
+  for (const mapping of mappings || []) {
+    const what = `Input "${mapping.targetInput}" of ${owner}`;
+
+    if (mapping.source.type === 'expression') {
+      checkExpression(mapping.source.expression, what, scope, { blockIds: [blockId] });
+      continue;
+    }
+
+    if (mapping.source.type !== 'block_output') continue;
+
+    const sourceId = mapping.source.blockId || '';
+    const source = known.get(sourceId);
+    if (!source) {
+      issues.push({
+        code: 'UNKNOWN_BLOCK',
+        message: `${location}${what} references missing block "${sourceId}"`,
+        blockIds: [blockId],
+      });
+      continue;
+    }
+
+    if (!upstream.has(sourceId) && !scope.outerUpstream.has(sourceId)) {
+      issues.push({
+        code: 'NOT_UPSTREAM',
+        message: `${location}${what} reads from block "${sourceId}", which is not upstream of it`,
+        blockIds: [blockId, sourceId],
+      });
+      continue;
+    }
+
+    const definition = scope.definitions.get(source.blockId);
+    const outputNames = definition ? getOutputNames(definition) : null;
+    if (outputNames && !outputNames.includes(mapping.source.outputName || '')) {
+      issues.push({
+        code: 'UNKNOWN_OUTPUT',
+        message: `${location}${what} reads unknown output "${mapping.source.outputName}" of block "${sourceId}"`,
+        blockIds: [blockId, sourceId],
+      });
+    }
+  }
+}
+
+function validateGraph(blocks: FlowBlock[], connections: Connection[], scope: GraphScope): void {
+  const { issues, location } = scope;
+  const blockMap = new Map<string, FlowBlock>();
+
+  for (const flowBlock of blocks) {
+    if (blockMap.has(flowBlock.id)) {
+      issues.push({ code: 'DUPLICATE_BLOCK_ID', message: `${location}Block ID "${flowBlock.id}" is used more than once`, blockIds: [flowBlock.id] });
+    }
+    blockMap.set(flowBlock.id, flowBlock);
+
+    if (!scope.definitions.get(flowBlock.blockId)) {
+      issues.push({
+        code: 'UNKNOWN_BLOCK',
+        message: `${location}Block "${flowBlock.id}" uses unknown block definition "${flowBlock.blockId}"`,
+        blockIds: [flowBlock.id],
+      });
+    }
+  }
+
+  const known = new Map([...scope.known, ...blockMap]);
+  const edges = new Map<string, string[]>();
+  const reverseEdges = new Map<string, string[]>();
+
+  for (const conn of connections) {
+    const missing = [conn.fromBlockId, conn.toBlockId].filter(id => !blockMap.has(id));
+    if (missing.length > 0) {
+      issues.push({
+        code: 'DANGLING_CONNECTION',
+        message: `${location}Connection "${conn.id}" references missing block ${missing.map(id => `"${id}"`).join(' and ')}`,
+        connectionId: conn.id,
+        blockIds: missing,
+      });
+      continue;
+    }
+
+    edges.set(conn.fromBlockId, [...(edges.get(conn.fromBlockId) || []), conn.toBlockId]);
+    reverseEdges.set(conn.toBlockId, [...(reverseEdges.get(conn.toBlockId) || []), conn.fromBlockId]);
+
+    if (conn.condition) {
+      checkExpression(conn.condition.expression, `Condition on connection "${conn.id}"`, scope, { connectionId: conn.id });
+    }
+  }
+
+  for (const cycle of findCycles([...blockMap.keys()], edges)) {
+    issues.push({
+      code: 'CYCLE',
+      message: `${location}Cycle detected between blocks: ${[...cycle, cycle[0]].join(' -> ')}`,
+      blockIds: cycle,
+    });
+  }
+
+  for (const flowBlock of blockMap.values()) {
+    const ancestors = getAncestors(flowBlock.id, reverseEdges);
+
+    checkMappings(flowBlock.inputMappings, `block "${flowBlock.id}"`, flowBlock.id, ancestors, known, scope);
+
+    // Compensations run after the block itself, so they may also read its outputs
+    if (flowBlock.compensation) {
+      const { compensation } = flowBlock;
+      if (!scope.definitions.get(compensation.blockId)) {
+        issues.push({
+          code: 'UNKNOWN_BLOCK',
+          message: `${location}Compensation of block "${flowBlock.id}" uses unknown block definition "${compensation.blockId}"`,
+          blockIds: [flowBlock.id],
+        });
+      }
+      checkMappings(
+        compensation.inputMappings,
+        `compensation of block "${flowBlock.id}"`,
+        flowBlock.id,
+        new Set([...ancestors, flowBlock.id]),
+        known,
+        scope
+      );
+    }
+
+    // Loop sub-graphs can also read from anything upstream of the loop block itself
+    if (flowBlock.loop) {
+      const loop = flowBlock.loop;
+      const loopLocation = `${location}Loop "${flowBlock.id}": `;
+
+      validateGraph(loop.blocks || [], loop.connections || [], {
+        ...scope,
+        known,
+        outerUpstream: new Set([...scope.outerUpstream, ...ancestors]),
+        location: loopLocation,
+      });
+
+      if (loop.output && !(loop.blocks || []).some(b => b.id === loop.output!.blockId)) {
+        issues.push({
+          code: 'UNKNOWN_BLOCK',
+          message: `${loopLocation}Output block "${loop.output.blockId}" is not part of the loop`,
+          blockIds: [flowBlock.id],
+        });
+      }
+    }
+  }
+}
+
+function collectBlockIds(blocks: FlowBlock[], ids: Set<string> = new Set()): Set<string> {
+  for (const flowBlock of blocks) {
+    ids.add(flowBlock.blockId);
+    if (flowBlock.compensation) ids.add(flowBlock.compensation.blockId);
+    if (flowBlock.loop) collectBlockIds(flowBlock.loop.blocks || [], ids);
+  }
+  return ids;
+}
+
+// Structural checks on a flow graph given its (possibly missing) block definitions
+export function validateFlowGraph(flow: FlowGraph, definitions: Map<string, Block | null>): FlowValidationIssue[] {
+  const issues: FlowValidationIssue[] = [];
+  const blocks = flow.blocks || [];
+
+  validateGraph(blocks, flow.connections || [], {
+    definitions,
+    known: new Map(),
+    outerUpstream: new Set(),
+    location: '',
+    issues,
+  });
+
+  for (const output of flow.outputs || []) {
+    const source = blocks.find(b => b.id === output.sourceBlockId);
+    if (!source) {
+      issues.push({
+        code: 'UNKNOWN_BLOCK',
+        message: `Flow output "${output.name}" references missing block "${output.sourceBlockId}"`,
+        blockIds: [output.sourceBlockId],
+      });
+      continue;
+    }
+
+    const definition = definitions.get(source.blockId);
+    const outputNames = definition ? getOutputNames(definition) : null;
+    if (outputNames && !outputNames.includes(output.sourceOutput)) {
+      issues.push({
+        code: 'UNKNOWN_OUTPUT',
+        message: `Flow output "${output.name}" reads unknown output "${output.sourceOutput}" of block "${source.id}"`,
+        blockIds: [source.id],
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Loads the block definitions a flow uses and validates its graph
+export async function validateFlow(flow: FlowGraph): Promise<FlowValidationResult> {
+  const definitions = new Map<string, Block | null>();
+  await Promise.all([...collectBlockIds(flow.blocks || [])].map(async blockId => {
+    definitions.set(blockId, await getBlockDefinition(blockId));
+  }));
+
+  const issues = validateFlowGraph(flow, definitions);
+  return {
+    valid: issues.length === 0,
+    issues,
+    validatedAt: new Date(),
+  };
+}
+
+export function formatValidationIssues(issues: FlowValidationIssue[], limit = 5): string {
+  const shown = issues.slice(0, limit).map(issue => issue.message);
+  if (issues.length > limit) {
+    shown.push(`and ${issues.length - limit} more`);
+  }
+  return shown.join('; ');
+}
@@ -2,18 +2,23 @@ import { connectDatabase, config } from './config';
 import { jsonResponse, errorResponse, handleCors, corsHeaders } from './utils/response';
 import { authenticate, optionalAuth } from './middleware/auth';
 import { getKeycloakClientConfig } from './config/keycloak';
+import { startScheduler } from './engine';
 
 // API route handlers (will be implemented)
 import { handleBlocksApi } from './api/blocks';
 import { handleFlowsApi } from './api/flows';
-import { handleExecuteApi } from './api/execute';
+import { handleExecuteApi, startJobWorker } from './api/execute';
 import { handleSourcesApi } from './api/sources';
 import { handleOpenApiDoc } from './api/openapi';
+import { handleCredentialsApi } from './api/credentials';
+import { handleCircuitsApi } from './api/circuits';
+import { handleJobsApi } from './api/jobs';
+import { handleSchedulesApi } from './api/schedules';
 
 const server = Bun.serve({
   port: config.port,
 
-  async fetch(request: Request): Promise<Response> {
+  async fetch(request: Request, server): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
 
@@ -60,13 +65,29 @@ const server = Bun.serve({
       }
 
       if (path.startsWith('/api/execute/')) {
-        return addCors(await handleExecuteApi(request, path));
+        return addCors(await handleExecuteApi(request, path, server.requestIP(request)?.address));
       }
 
       if (path.startsWith('/api/sources')) {
         return addCors(await handleSourcesApi(request, path));
       }
 
+      if (path.startsWith('/api/credentials')) {
+        return addCors(await handleCredentialsApi(request, path));
+      }
+
+      if (path.startsWith('/api/jobs')) {
+        return addCors(await handleJobsApi(request, path));
+      }
+
+      if (path.startsWith('/api/schedules')) {
+        return addCors(await handleSchedulesApi(request, path));
+      }
+
+      if (path.startsWith('/api/circuits')) {
+        return addCors(await handleCircuitsApi(request, path));
+      }
+
       // 404 for unknown routes
       return addCors(errorResponse('Not found', 404, 'NOT_FOUND'));
 
@@ -82,6 +103,8 @@ const server = Bun.serve({
 async function init() {
   try {
     await connectDatabase();
+    startJobWorker();
+    startScheduler();
     console.log(`Server running at http://localhost:${server.port}`);
   } catch (error) {
     console.error('Failed to initialize:', error);
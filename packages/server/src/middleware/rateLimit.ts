@@ -0,0 +1,157 @@
+import { createHash } from 'node:crypto';
+import { cacheService } from '../config/redis';
+import { optionalAuth } from './auth';
+import type { FlowRateLimitConfig, RateLimitConsumer } from '@codeblock-bff/shared';
+
+const CONSUMERS: RateLimitConsumer[] = ['ip', 'user', 'apiKey'];
+const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+// Only behind a proxy that sets X-Forwarded-For can the header be believed;
+// otherwise any client could pick a new address for every request
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+// Checks and counts a request in one step, so concurrent requests cannot all
+// pass before any of them is counted. KEYS: previous and current window of
+// each consumer, in pairs; ARGV: limit, weight of the previous window, TTL of
+// the current one. A request is counted only if every consumer has room.
+// Returns { allowed (0/1), then previous and current count per consumer }.
+const SLIDING_WINDOW_SCRIPT = `
+local counts = {}
+local allowed = 1
+for i = 1, #KEYS, 2 do
+  local previous = tonumber(redis.call('GET', KEYS[i]) or '0')
+  local current = tonumber(redis.call('GET', KEYS[i + 1]) or '0')
+  if previous * tonumber(ARGV[2]) + current + 1 > tonumber(ARGV[1]) then
+    allowed = 0
+  end
+  counts[i] = previous
+  counts[i + 1] = current
+end
+if allowed == 1 then
+  for i = 2, #KEYS, 2 do
+    counts[i] = redis.call('INCR', KEYS[i])
+    if counts[i] == 1 then
+      redis.call('EXPIRE', KEYS[i], ARGV[3])
+    end
+  end
+end
+table.insert(counts, 1, allowed)
+return counts
+`;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  headers: Record<string, string>; // RateLimit-* and, when rejected, Retry-After
+}
+
+// The socket address, or with TRUST_PROXY the first X-Forwarded-For hop
+export function getClientIp(request: Request, remoteAddress?: string): string {
+  const forwarded = TRUST_PROXY ? request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() : undefined;
+  return forwarded || remoteAddress || 'unknown';
+}
+
+// The consumers a request is counted against. API keys are not verified, so a
+// key is limited together with the client IP; otherwise sending a new made-up
+// key with every request would get around the limit.
+async function getConsumerIds(config: FlowRateLimitConfig, request: Request, remoteAddress?: string): Promise<string[]> {
+  const ip = `ip:${getClientIp(request, remoteAddress)}`;
+
+  if (config.consumer === 'user') {
+    const user = await optionalAuth(request);
+    if (user?.sub) return [`user:${user.sub}`];
+  }
+
+  if (config.consumer === 'apiKey') {
+    const apiKey = request.headers.get(config.apiKeyHeader || DEFAULT_API_KEY_HEADER);
+    // Keys are not stored in Redis as-is
+    if (apiKey) return [`key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 32)}`, ip];
+  }
+
+  return [ip];
+}
+
+// Milliseconds until one more request fits. `fraction` is how far the current
+// window has progressed; the previous window's count fades out over it.
+function getRetryAfterMs(limit: number, previous: number, current: number, fraction: number, windowMs: number): number {
+  if (current + 1 <= limit) {
+    const target = 1 - (limit - current - 1) / previous;
+    return (target - fraction) * windowMs;
+  }
+  // The current window's requests have to fade out during the next one
+  const target = 1 - (limit - 1) / current;
+  return (1 - fraction) * windowMs + Math.max(target, 0) * windowMs;
+}
+
+// Sliding window counter: the previous fixed window's count, weighted by how
+// much of it still overlaps the sliding window, plus the current window's count.
+// `scope` separates limits, e.g. one per flow. Redis failures let requests through.
+export async function checkRateLimit(
+  scope: string,
+  config: FlowRateLimitConfig,
+  request: Request,
+  remoteAddress?: string
+): Promise<RateLimitResult> {
+  const { limit, windowSeconds } = config;
+  const windowMs = windowSeconds * 1000;
+  const now = Date.now();
+  const window = Math.floor(now / windowMs);
+  const fraction = (now - window * windowMs) / windowMs;
+
+  const headers: Record<string, string> = {
+    'RateLimit-Policy': `${limit};w=${windowSeconds}`,
+    'RateLimit-Limit': String(limit),
+    'RateLimit-Reset': String(Math.ceil((1 - fraction) * windowSeconds)),
+  };
+
+  try {
+    const consumers = await getConsumerIds(config, request, remoteAddress);
+    const keys = consumers.flatMap(consumer => [
+      `ratelimit:${scope}:${consumer}:${window - 1}`,
+      `ratelimit:${scope}:${consumer}:${window}`,
+    ]);
+    const [allowed, ...counts] = await cacheService.eval<number[]>(
+      SLIDING_WINDOW_SCRIPT,
+      keys,
+      [limit, 1 - fraction, windowSeconds * 2]
+    );
+    const windows = consumers.map((_, i) => ({ previous: counts[i * 2], current: counts[i * 2 + 1] }));
+
+    if (!allowed) {
+      // The consumer that stays full the longest decides when to retry
+      const retryAfterMs = Math.max(...windows
+        .filter(({ previous, current }) => previous * (1 - fraction) + current + 1 > limit)
+        .map(({ previous, current }) => getRetryAfterMs(limit, previous, current, fraction, windowMs)));
+      headers['RateLimit-Remaining'] = '0';
+      headers['Retry-After'] = String(Math.max(Math.ceil(retryAfterMs / 1000), 1));
+      return { allowed: false, headers };
+    }
+
+    // `current` already includes this request
+    const estimate = Math.max(...windows.map(({ previous, current }) => previous * (1 - fraction) + current));
+    headers['RateLimit-Remaining'] = String(Math.max(Math.floor(limit - estimate), 0));
+  } catch (error) {
+    console.error(`Rate limit check for ${scope} failed:`, error);
+  }
+
+  return { allowed: true, headers };
+}
+
+// Returns a message describing the first problem with a rate limit config, or null
+export function validateRateLimitConfig(config: FlowRateLimitConfig): string | null {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return 'must be an object';
+  }
+  if (!Number.isInteger(config.limit) || config.limit <= 0) {
+    return 'limit must be a positive integer';
+  }
+  if (!Number.isInteger(config.windowSeconds) || config.windowSeconds <= 0) {
+    return 'windowSeconds must be a positive number of seconds';
+  }
+  if (config.consumer !== undefined && !CONSUMERS.includes(config.consumer)) {
+    return `consumer must be one of: ${CONSUMERS.join(', ')}`;
+  }
+  if (config.apiKeyHeader !== undefined && (typeof config.apiKeyHeader !== 'string' || config.apiKeyHeader === '')) {
+    return 'apiKeyHeader must be a header name';
+  }
+  return null;
+}
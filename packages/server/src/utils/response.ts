@@ -69,7 +69,8 @@ export function corsHeaders(origin: string = '*'): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': origin,
     'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Flow-Trace, X-Cache-Bypass, If-None-Match, Prefer',
+    'Access-Control-Expose-Headers': 'ETag, Age, X-Cache, Location, Preference-Applied, RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After',
     'Access-Control-Max-Age': '86400',
   };
 }
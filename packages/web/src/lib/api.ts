@@ -145,8 +145,8 @@ export const executeApi = {
     });
   },
 
-  test: <T = unknown>(slug: string, inputs: Record<string, unknown> = {}) =>
-    request<T>(`/execute/${slug}/test`, {
+  test: <T = unknown>(slug: string, inputs: Record<string, unknown> = {}, options: { trace?: boolean } = {}) =>
+    request<T>(`/execute/${slug}/test${options.trace ? '?_trace=true' : ''}`, {
       method: 'POST',
       body: JSON.stringify(inputs),
     }),
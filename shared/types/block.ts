@@ -8,6 +8,9 @@ export type BlockType =
   | 'aggregate'     // 데이터 집계 블럭
   | 'custom';       // 커스텀 블럭
 
+// OpenAPI serialization styles for query parameters
+export type QueryParameterStyle = 'form' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+
 export interface InputDefinition {
   name: string;
   type: 'string' | 'number' | 'boolean' | 'object' | 'array';
@@ -16,6 +19,9 @@ export interface InputDefinition {
   description?: string;
   defaultValue?: unknown;
   schema?: object;
+  pointer?: string;             // body inputs: JSON pointer inside the body, e.g. `/customer/id`; omit to set the whole body
+  style?: QueryParameterStyle;  // query inputs, defaults to 'form'
+  explode?: boolean;            // defaults to true for 'form' and 'deepObject', false otherwise
 }
 
 export interface OutputDefinition {
@@ -25,12 +31,88 @@ export interface OutputDefinition {
   description?: string;
 }
 
+export type ResponseFormat = 'json' | 'text' | 'xml' | 'csv' | 'binary';
+
+// How an api_call block decodes upstream responses. Without a format the
+// Content-Type header decides; XML and CSV are converted to JSON.
+export interface ResponseDecoding {
+  format?: ResponseFormat;
+  binary?: 'base64' | 'passthrough'; // passthrough streams the bytes as the flow response
+  csvDelimiter?: string;
+  csvHeader?: boolean;               // first row holds column names, defaults to true
+}
+
+export type RequestContentType =
+  | 'application/json'
+  | 'application/x-www-form-urlencoded'
+  | 'multipart/form-data';
+
 export interface BlockSource {
   openApiUrl: string;
   operationId: string;
   path: string;
   method: HttpMethod;
   serverUrl?: string;
+  requestContentType?: RequestContentType; // encoding of the request body, defaults to JSON
+  response?: ResponseDecoding;
+  credentialId?: string; // stored credential used to authenticate calls
+}
+
+// Condition used by transform `filter` steps
+export interface TransformCondition {
+  field: string;
+  operator: 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'exists';
+  value?: unknown;
+}
+
+// Transform steps operate on dotted paths (e.g. `user.orders`) in the working document.
+// Steps that target an array apply to every element.
+export type TransformStep =
+  | { op: 'pick'; path?: string; fields: string[] }
+  | { op: 'omit'; path?: string; fields: string[] }
+  | { op: 'rename'; path?: string; fields: Record<string, string> }
+  | { op: 'defaults'; path?: string; values: Record<string, unknown> }
+  | { op: 'set'; target: string; from?: string; value?: unknown }
+  | { op: 'map'; path: string; steps: TransformStep[] }
+  | { op: 'filter'; path: string; where?: TransformCondition[]; expression?: string }
+  | { op: 'flatten'; path: string; depth?: number }
+  | { op: 'merge'; sources: string[]; target: string };
+
+export interface TransformTemplate {
+  steps: TransformStep[];
+}
+
+// Values that are missing, null or not numeric are ignored by sum/avg/min/max; count counts every item
+export type AggregateReduceOperation = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+// Aggregate blocks combine their resolved inputs (usually mapped from upstream block outputs)
+// into a single `result` output. `inputs` lists input names; it defaults to all inputs.
+export type AggregateDefinition =
+  | { mode: 'merge'; inputs?: string[]; deep?: boolean }
+  | { mode: 'concat'; inputs?: string[] }
+  | {
+      mode: 'join';
+      left: string;
+      right: string;
+      on: string;            // key field on left items, e.g. `userId`
+      rightOn?: string;      // key field on right items, defaults to `on`
+      type?: 'inner' | 'left';
+      as?: string;           // nest matches under this field instead of merging rows
+    }
+  | { mode: 'groupBy'; input: string; by: string }
+  | { mode: 'reduce'; input: string; operation: AggregateReduceOperation; field?: string; groupBy?: string };
+
+// Evaluated against the block's resolved inputs, e.g. `inputs.total > 100`
+export interface ConditionDefinition {
+  expression: string;
+}
+
+// Canned upstream response used by test runs instead of calling the API
+export interface MockFixture {
+  statusCode?: number; // defaults to 200
+  headers?: Record<string, string>;
+  body?: unknown;      // already decoded, i.e. what the response decoder would produce
+  delayMs?: number;    // simulated latency
 }
 
 export interface Block {
@@ -41,6 +123,10 @@ export interface Block {
   source: BlockSource;
   inputs: InputDefinition[];
   outputs: OutputDefinition[];
+  transform?: TransformTemplate; // for transform blocks
+  condition?: ConditionDefinition; // for condition blocks
+  aggregate?: AggregateDefinition; // for aggregate blocks
+  mock?: MockFixture; // default fixture for test runs
   category?: string;
   tags?: string[];
   createdAt?: Date;
@@ -55,6 +141,10 @@ export interface CreateBlockDto {
   source: BlockSource;
   inputs: InputDefinition[];
   outputs: OutputDefinition[];
+  transform?: TransformTemplate;
+  condition?: ConditionDefinition;
+  aggregate?: AggregateDefinition;
+  mock?: MockFixture;
   category?: string;
   tags?: string[];
 }
@@ -0,0 +1,13 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Breaker state of one upstream host, shared by all server instances.
+// Open circuits fail calls fast; once openUntil passes a single probe call
+// decides whether the circuit closes again or reopens.
+export interface CircuitBreakerState {
+  host: string;
+  state: CircuitState;
+  failures: number;      // failures in the current window while closed
+  openedAt?: string;
+  openUntil?: string;
+  lastError?: string;    // failure that opened the circuit
+}
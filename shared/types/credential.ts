@@ -0,0 +1,48 @@
+export type CredentialType = 'api_key' | 'basic' | 'bearer' | 'oauth2_client_credentials';
+
+// Secret values of a credential. They are encrypted at rest and never
+// returned by the API.
+export interface CredentialSecret {
+  apiKey?: string;       // api_key
+  username?: string;     // basic
+  password?: string;     // basic
+  token?: string;        // bearer
+  clientId?: string;     // oauth2_client_credentials
+  clientSecret?: string; // oauth2_client_credentials
+}
+
+// Non-secret settings of a credential
+export interface CredentialSettings {
+  in?: 'header' | 'query'; // where an API key is sent, defaults to header
+  name?: string;           // API key header or query parameter, defaults to X-API-Key
+  tokenUrl?: string;       // OAuth2 token endpoint
+  scope?: string;
+  audience?: string;
+}
+
+export interface Credential {
+  _id?: string;
+  name: string;
+  description?: string;
+  type: CredentialType;
+  settings: CredentialSettings;
+  encryptedSecret: string; // AES-256-GCM encrypted CredentialSecret
+  secretFields: string[];  // which secret values are set, for display
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string;
+}
+
+// What the API returns for a credential
+export type CredentialView = Omit<Credential, 'encryptedSecret'>;
+
+export interface CreateCredentialDto {
+  name: string;
+  description?: string;
+  type: CredentialType;
+  settings?: CredentialSettings;
+  secret: CredentialSecret;
+}
+
+// Omitting `secret` keeps the stored values; a new secret replaces them all
+export interface UpdateCredentialDto extends Partial<CreateCredentialDto> {}
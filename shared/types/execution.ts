@@ -1,16 +1,22 @@
 export type ExecutionStatus = 'success' | 'failure' | 'partial';
 
+export type BlockExecutionStatus = ExecutionStatus | 'skipped' | 'cancelled';
+
 export interface BlockExecutionRequest {
   url: string;
   method: string;
   headers?: Record<string, string>;
   body?: unknown;
+  truncated?: boolean; // body was cut to the log size limit
+  size?: number; // original body size in bytes
 }
 
 export interface BlockExecutionResponse {
   statusCode: number;
   headers?: Record<string, string>;
   body?: unknown;
+  truncated?: boolean;
+  size?: number;
 }
 
 export interface BlockExecutionError {
@@ -18,16 +24,50 @@ export interface BlockExecutionError {
   code?: string;
 }
 
+export interface BlockExecutionAttempt {
+  attempt: number;
+  status: ExecutionStatus;
+  statusCode?: number;
+  error?: BlockExecutionError;
+  durationMs: number;
+}
+
+// How a cached block was answered: fresh or stale from the cache, or by the
+// upstream because nothing was cached or the caller asked to bypass the cache
+export type BlockCacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
 export interface BlockExecution {
   blockId: string;
   blockName: string;
-  status: ExecutionStatus | 'skipped';
+  status: BlockExecutionStatus;
+  skipReason?: string;
   request?: BlockExecutionRequest;
   response?: BlockExecutionResponse;
   error?: BlockExecutionError;
+  attempts?: BlockExecutionAttempt[];
+  mocked?: boolean; // answered from a fixture in a test run
+  cache?: BlockCacheStatus;
   durationMs: number;
 }
 
+// Progress of a streamed execution, sent as Server-Sent Events named by `type`.
+// Block events carry the block's record; the run ends with `completed` or `failed`.
+export type ExecutionEvent =
+  | { type: 'block_started'; blockId: string; blockName: string }
+  | {
+      type: 'block_completed' | 'block_failed' | 'block_skipped';
+      blockId: string;
+      blockName: string;
+      status: BlockExecutionStatus;
+      skipReason?: string;
+      error?: BlockExecutionError;
+      mocked?: boolean;
+      cache?: BlockCacheStatus;
+      durationMs: number;
+    }
+  | { type: 'completed'; outputs: Record<string, unknown>; durationMs: number }
+  | { type: 'failed'; error: { message: string; blockId?: string; code?: string }; durationMs: number };
+
 export interface ExecutionRequest {
   inputs: Record<string, unknown>;
   headers?: Record<string, string>;
@@ -51,30 +91,64 @@ export interface ExecutionPerformance {
   durationMs: number;
 }
 
+// What started an execution: a direct call, an async job, a progress stream or a schedule
+export type ExecutionTriggerType = 'http' | 'async' | 'stream' | 'schedule';
+
+export interface ExecutionTrigger {
+  type: ExecutionTriggerType;
+  scheduleId?: string;
+}
+
 export interface ExecutionLog {
   _id?: string;
   flowId: string;
   flowVersion: number;
+  trigger?: ExecutionTrigger; // missing on logs written before triggers were recorded
   request: ExecutionRequest;
   result: ExecutionResult;
   blockExecutions: BlockExecution[];
   performance: ExecutionPerformance;
 }
 
+// A block's step in an execution trace. Request and response are recorded as in
+// the execution log (redacted and size-limited).
+export interface BlockTraceEntry extends BlockExecution {
+  inputs?: Record<string, unknown>;  // resolved input mappings
+  outputs?: Record<string, unknown>; // extracted outputs
+  startOffsetMs: number;             // since the flow started
+}
+
+// Returned instead of the outputs when a caller asks for a trace
+export interface ExecutionTrace {
+  flowId: string;
+  flowVersion: number;
+  test: boolean;
+  result: ExecutionResult;
+  inputs: Record<string, unknown>;
+  blocks: BlockTraceEntry[]; // in the order the blocks started
+  durationMs: number;
+}
+
 export interface ExecutionContext {
   flowId: string;
   inputs: Record<string, unknown>;
+  headers?: Record<string, string>; // incoming request headers, lower-cased names
   variables: Record<string, unknown>;
   blockResults: Map<string, BlockExecutionResult>;
 }
 
 export interface BlockExecutionResult {
-  status: ExecutionStatus;
+  status: BlockExecutionStatus;
+  skipReason?: string;
   outputs?: Record<string, unknown>;
+  request?: BlockExecutionRequest;
   rawResponse?: {
     statusCode: number;
     data: unknown;
     headers: Record<string, string>;
   };
   error?: BlockExecutionError;
+  attempts?: BlockExecutionAttempt[];
+  mocked?: boolean;
+  cache?: BlockCacheStatus;
 }
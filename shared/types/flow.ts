@@ -1,3 +1,5 @@
+import type { MockFixture } from './block';
+
 export type FlowStatus = 'draft' | 'published' | 'archived';
 
 export type MappingSourceType = 'flow_input' | 'block_output' | 'constant' | 'expression';
@@ -16,10 +18,84 @@ export interface InputMapping {
   source: MappingSource;
 }
 
+export interface RetryPolicy {
+  attempts?: number;              // retries after the first call, defaults to retryCount
+  backoff?: 'fixed' | 'exponential';
+  delayMs?: number;               // base delay between attempts
+  maxDelayMs?: number;
+  jitter?: boolean;
+  retryOnStatus?: number[];       // HTTP statuses that are retried
+  retryOnNetworkError?: boolean;  // connection failures and timeouts
+  allowNonIdempotent?: boolean;   // also retry non-GET requests
+}
+
+// A fixed header value, or an expression over the execution scope, e.g.
+// `{ expression: "headers['accept-language'] || inputs.locale" }`
+export type HeaderValue = string | { expression: string };
+
+// Which headers of the incoming /api/execute request reach upstream calls.
+// The flow policy applies to every api_call block and a block's policy is
+// merged on top of it. Header inputs of the block itself take precedence.
+export interface HeaderForwardingPolicy {
+  allow?: string[];                  // caller headers to forward, case-insensitive
+  rename?: Record<string, string>;   // caller header -> upstream header name
+  set?: Record<string, HeaderValue>; // added after forwarding, replacing forwarded values
+}
+
+// Caching of successful GET responses of an api_call block, keyed by the
+// resolved request. Stale entries are served while they are refreshed.
+export interface BlockCacheConfig {
+  ttl: number;                   // seconds a response is fresh
+  staleWhileRevalidate?: number; // further seconds a stale response may be served
+}
+
+// Overrides the server-wide circuit breaker settings for calls made by a block.
+// The breaker itself is shared per upstream host.
+export interface CircuitBreakerConfig {
+  enabled?: boolean;          // defaults to true
+  failureThreshold?: number;  // failures within the window that open the circuit
+  windowSeconds?: number;
+  openSeconds?: number;       // how long calls fail fast before a probe is let through
+}
+
 export interface FlowBlockConfig {
   timeout?: number;
   retryCount?: number;
+  retry?: RetryPolicy;
   continueOnError?: boolean;
+  headers?: HeaderForwardingPolicy;
+  cache?: BlockCacheConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export type LoopErrorPolicy = 'stop' | 'skip' | 'collect';
+
+// Sub-graph run once per element of the loop block's `items` input.
+// Nested blocks can read the element via `variables.item` and `variables.index`.
+export interface LoopConfig {
+  blocks: FlowBlock[];
+  connections: Connection[];
+  output?: {
+    blockId: string;      // nested block whose outputs form each result
+    outputName?: string;  // omit to collect all outputs of that block
+  };
+  concurrency?: number;
+  errorPolicy?: LoopErrorPolicy;
+}
+
+// Undo action run for a succeeded block when a later block fails under
+// errorHandling 'rollback'. Mappings can read the original block's outputs.
+export interface CompensationConfig {
+  blockId: string;
+  inputMappings: InputMapping[];
+  config?: FlowBlockConfig;
+}
+
+// How a block behaves in test runs. Upstream calls are mocked unless mode is
+// 'real'; the fixture comes from here, then the block, then the OpenAPI spec.
+export interface FlowBlockMock {
+  mode?: 'mock' | 'real';
+  fixture?: MockFixture;
 }
 
 export interface FlowBlock {
@@ -31,12 +107,17 @@ export interface FlowBlock {
   };
   inputMappings: InputMapping[];
   config?: FlowBlockConfig;
+  loop?: LoopConfig; // for loop blocks
+  compensation?: CompensationConfig;
+  mock?: FlowBlockMock; // test runs only
+  credentialId?: string; // overrides the block source's credential
 }
 
 export interface Connection {
   id: string;
   fromBlockId: string;
   toBlockId: string;
+  branch?: 'true' | 'false'; // for connections leaving a condition block
   condition?: {
     expression: string;
   };
@@ -57,12 +138,61 @@ export interface FlowOutputDefinition {
   description?: string;
   sourceBlockId: string;
   sourceOutput: string;
+  fallback?: unknown; // used when the source block was skipped
+}
+
+// HTTP caching of successful GET executions. Responses carry an ETag computed
+// from the outputs, so callers can revalidate with If-None-Match.
+export interface FlowCacheConfig {
+  maxAge?: number;      // seconds, sent as Cache-Control max-age; omit to always revalidate
+  private?: boolean;    // forbid shared caches (CDNs) from storing responses
+  vary?: string[];      // caller headers the outputs depend on, besides forwarded ones
+  serverTtl?: number;   // seconds whole results are kept in Redis, keyed by normalized inputs
+}
+
+// How callers are told apart for rate limiting. Callers without a valid token
+// or API key are counted by IP address.
+export type RateLimitConsumer = 'ip' | 'user' | 'apiKey';
+
+// At most `limit` executions per consumer in any sliding window of `windowSeconds`
+export interface FlowRateLimitConfig {
+  limit: number;
+  windowSeconds: number;
+  consumer?: RateLimitConsumer; // defaults to 'ip'
+  apiKeyHeader?: string;        // for 'apiKey', defaults to X-API-Key
 }
 
 export interface FlowConfig {
   timeout?: number;
   parallel?: boolean;
+  maxConcurrency?: number; // max blocks in flight when parallel
   errorHandling?: 'stop' | 'continue' | 'rollback';
+  headers?: HeaderForwardingPolicy;
+  cache?: FlowCacheConfig;
+  rateLimit?: FlowRateLimitConfig;
+}
+
+export type FlowValidationIssueCode =
+  | 'CYCLE'
+  | 'DANGLING_CONNECTION'
+  | 'DUPLICATE_BLOCK_ID'
+  | 'UNKNOWN_BLOCK'
+  | 'NOT_UPSTREAM'
+  | 'UNKNOWN_OUTPUT'
+  | 'INVALID_EXPRESSION'
+  | 'INVALID_CONFIG';
+
+export interface FlowValidationIssue {
+  code: FlowValidationIssueCode;
+  message: string;
+  blockIds?: string[];
+  connectionId?: string;
+}
+
+export interface FlowValidationResult {
+  valid: boolean;
+  issues: FlowValidationIssue[];
+  validatedAt?: Date;
 }
 
 export interface Flow {
@@ -77,6 +207,7 @@ export interface Flow {
   outputs: FlowOutputDefinition[];
   config: FlowConfig;
   status: FlowStatus;
+  validation?: FlowValidationResult; // graph validation from the last save
   tags?: string[];
   createdAt?: Date;
   updatedAt?: Date;
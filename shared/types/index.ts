@@ -1,6 +1,10 @@
 export * from './block';
 export * from './flow';
 export * from './execution';
+export * from './credential';
+export * from './circuit';
+export * from './job';
+export * from './schedule';
 
 // Data source type (from Notion)
 export interface DataSource {
@@ -0,0 +1,21 @@
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Flow execution requested with `Prefer: respond-async`. Jobs and their
+// results expire a fixed time after they were created.
+export interface Job {
+  id: string;
+  flowId: string;
+  flowSlug: string;
+  test: boolean;
+  status: JobStatus;
+  outputs?: Record<string, unknown>;
+  error?: {
+    message: string;
+    blockId?: string;
+    code?: string;
+  };
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  expiresAt: string;
+}
@@ -0,0 +1,31 @@
+// Runs a published flow on a cron schedule with fixed inputs
+export interface Schedule {
+  _id?: string;
+  flowId: string;
+  name: string;
+  cron: string;                    // minute hour day-of-month month day-of-week, or @daily etc.
+  timezone: string;                // IANA name, e.g. Asia/Seoul
+  inputs: Record<string, unknown>;
+  enabled: boolean;
+  lastRunAt?: Date;
+  lastJobId?: string;              // async job of the last run
+  createdAt?: Date;
+  updatedAt?: Date;
+  createdBy?: string;
+}
+
+// Schedule as returned by the API, with upcoming run times
+export interface ScheduleView extends Schedule {
+  nextRuns: Date[];
+}
+
+export interface CreateScheduleDto {
+  flowId: string;
+  name: string;
+  cron: string;
+  timezone?: string;               // defaults to UTC
+  inputs?: Record<string, unknown>;
+  enabled?: boolean;               // defaults to true
+}
+
+export interface UpdateScheduleDto extends Partial<Omit<CreateScheduleDto, 'flowId'>> {}